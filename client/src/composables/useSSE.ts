@@ -6,6 +6,8 @@ export type SSEEventType =
   | 'status_changed'
   | 'version_updated'
   | 'questions_updated'
+  | 'merge_conflict'
+  | 'approval_revoked'
   | 'heartbeat';
 
 // Review 状态类型 (PR 风格命名)
@@ -14,8 +16,23 @@ export type ReviewStatus =
   | 'changes_requested' // 请求更改
   | 'discussing'        // 讨论中
   | 'approved'          // 已批准
+  | 'rejected'          // 已拒绝
   | 'updated';          // 已更新
 
+// 评论讨论串中的消息
+export interface CommentMessage {
+  id: string;
+  author: 'reviewer' | 'agent';
+  createdAt: number;
+  body: string;
+  question?: {
+    type: 'clarification' | 'choice' | 'multiChoice' | 'accepted';
+    message: string;
+    options?: string[];
+  };
+  documentVersion: string;
+}
+
 // 事件数据类型
 export interface StatusChangedData {
   status: ReviewStatus;
@@ -41,9 +58,39 @@ export interface QuestionsUpdatedData {
       message: string;
       options?: string[];
     };
+    message?: CommentMessage;
   }>;
 }
 
+// 三方合并片段
+export type MergeSegment =
+  | { type: 'text'; lines: string[] }
+  | { type: 'conflict'; id: string; base: string[]; ours: string[]; theirs: string[] };
+
+export interface PendingMerge {
+  baseVersion: string;
+  headVersion: string;
+  agentContent: string;
+  segments: MergeSegment[];
+  changeDescription?: string;
+  createdAt: number;
+}
+
+export interface MergeConflictData {
+  pendingMerge: PendingMerge;
+}
+
+// 审核者撤回批准
+export interface ApprovalRevocation {
+  revokedAt: number;
+  note: string;
+  commentId: string;
+}
+
+export interface ApprovalRevokedData {
+  revocation: ApprovalRevocation;
+}
+
 export interface ConnectedData {
   review: any;
 }
@@ -54,6 +101,8 @@ export interface SSECallbacks {
   onStatusChanged?: (data: StatusChangedData) => void;
   onVersionUpdated?: (data: VersionUpdatedData) => void;
   onQuestionsUpdated?: (data: QuestionsUpdatedData) => void;
+  onMergeConflict?: (data: MergeConflictData) => void;
+  onApprovalRevoked?: (data: ApprovalRevokedData) => void;
   onError?: (error: Event) => void;
 }
 
@@ -125,6 +174,30 @@ export function useSSE(reviewId: Ref<string>, callbacks: SSECallbacks) {
       }
     });
 
+    // 合并冲突事件
+    eventSource.addEventListener('merge_conflict', (e: MessageEvent) => {
+      try {
+        const data = JSON.parse(e.data) as MergeConflictData;
+        lastEventId.value = e.lastEventId;
+        callbacks.onMergeConflict?.(data);
+        console.log('[SSE] Merge conflict:', data.pendingMerge.segments.filter(s => s.type === 'conflict').length, 'conflicts');
+      } catch (err) {
+        console.error('[SSE] Failed to parse merge_conflict event:', err);
+      }
+    });
+
+    // 批准撤回事件
+    eventSource.addEventListener('approval_revoked', (e: MessageEvent) => {
+      try {
+        const data = JSON.parse(e.data) as ApprovalRevokedData;
+        lastEventId.value = e.lastEventId;
+        callbacks.onApprovalRevoked?.(data);
+        console.log('[SSE] Approval revoked');
+      } catch (err) {
+        console.error('[SSE] Failed to parse approval_revoked event:', err);
+      }
+    });
+
     // 心跳事件（静默处理）
     eventSource.addEventListener('heartbeat', (e: MessageEvent) => {
       lastEventId.value = e.lastEventId;
@@ -18,6 +18,7 @@ const SERVER_PORT = 3030;
 const POLL_INTERVAL = 2000; // 轮询间隔 2 秒
 const MAX_WAIT_TIME = 570000; // 最大等待时间 570 秒（留 30 秒余量）
 const SERVER_STARTUP_TIMEOUT = 10000; // 等待 server 启动的超时时间
+const TRANSITION_REJECTED = /Cannot .+ from status:/; // 服务端状态机拒绝状态转换时的错误信息
 
 // Debug 模式：通过环境变量控制
 const DEBUG = process.env.CC_PLAN_REVIEW_DEBUG === '1' || process.env.DEBUG === '1';
@@ -139,6 +140,20 @@ function respondToAgent(response: HookResponse): void {
   console.log(JSON.stringify(response));
 }
 
+// 关联的 review 仍在审核中，这次提交的计划没有交给审核者：阻止退出并说明原因
+function blockPendingReview(review: Review): never {
+  const waitingFor = review.status === 'discussing'
+    ? '审核者尚未回复你针对评论提出的问题'
+    : '审核者尚未完成对当前版本的审核';
+  respondToAgent({
+    decision: 'block',
+    reason: `Review ${review.id} 仍在进行中（状态：${review.status}），${waitingFor}。这次提交的计划与审核中的版本不同，**没有提交审核**。
+
+请调用 wait_for_review 工具（reviewId: ${review.id}）等待审核结果，收到反馈后再根据反馈修订计划并重新调用 ExitPlanMode。`
+  });
+  process.exit(0);
+}
+
 interface HookInput {
   session_id: string;
   transcript_path: string;
@@ -154,18 +169,19 @@ interface HookInput {
   tool_use_id: string;
 }
 
+// 提交计划的 Agent 会话，server 据此把同一会话的下一次 ExitPlanMode 关联为修订版本
+interface AgentSession {
+  sessionId: string;
+  toolUseId?: string;
+  transcriptPath?: string;
+}
+
+// 审核结果的格式化由 server 完成（见 src/review-feedback.ts），hook 只关心状态
 interface Review {
   id: string;
-  status: 'open' | 'changes_requested' | 'discussing' | 'approved' | 'updated';
-  comments: Array<{
-    quote: string;
-    comment: string;
-    resolved?: boolean;
-    position?: { startOffset: number; endOffset: number };
-  }>;
-  approvedDirectly?: boolean;
-  passThrough?: boolean;        // passThrough 模式：评论作为建议
-  planContent?: string;         // 最终批准的 plan 内容
+  status: 'open' | 'changes_requested' | 'discussing' | 'approved' | 'rejected' | 'updated';
+  planContent: string;
+  approval?: { mode: string };
 }
 
 // 从 plan 内容中提取 REVIEW_ID 标记
@@ -213,9 +229,9 @@ function httpRequest(options: http.RequestOptions, postData?: string): Promise<a
 }
 
 // 创建 review session
-async function createReview(plan: string, projectPath: string): Promise<Review> {
+async function createReview(plan: string, projectPath: string, session?: AgentSession): Promise<Review> {
   debug('createReview', { planLength: plan.length, projectPath });
-  const postData = JSON.stringify({ plan, projectPath });
+  const postData = JSON.stringify({ plan, projectPath, session });
   const result = await httpRequest({
     hostname: SERVER_HOST,
     port: SERVER_PORT,
@@ -234,12 +250,13 @@ async function createReview(plan: string, projectPath: string): Promise<Review>
 }
 
 // 更新已有 review 的 plan 内容（提交修订版本）
-async function updateReviewPlan(reviewId: string, plan: string): Promise<Review> {
+async function updateReviewPlan(reviewId: string, plan: string, session?: AgentSession): Promise<Review> {
   debug('updateReviewPlan', { reviewId, planLength: plan.length });
   const postData = JSON.stringify({
     content: plan,
     author: 'agent',
-    changeDescription: '根据审核反馈修订'
+    changeDescription: '根据审核反馈修订',
+    session
   });
   const result = await httpRequest({
     hostname: SERVER_HOST,
@@ -273,6 +290,37 @@ async function getReview(reviewId: string): Promise<Review | null> {
   }
 }
 
+// 获取当前会话中未完成的 review（同一会话的下一次提交作为它的修订版本）
+async function getSessionReview(sessionId: string): Promise<Review | null> {
+  try {
+    const result = await httpRequest({
+      hostname: SERVER_HOST,
+      port: SERVER_PORT,
+      path: `/api/reviews/session/${encodeURIComponent(sessionId)}`,
+      method: 'GET'
+    });
+    return result.statusCode === 200 ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// 获取审核结果对应的 hook 响应（与 get_review_result 工具返回的内容一致）
+async function getReviewDecision(reviewId: string): Promise<HookResponse | null> {
+  try {
+    const result = await httpRequest({
+      hostname: SERVER_HOST,
+      port: SERVER_PORT,
+      path: `/api/reviews/${reviewId}/decision`,
+      method: 'GET'
+    });
+    if (result.statusCode !== 200 || !result.data?.decided) return null;
+    return { decision: result.data.decision, reason: result.data.reason };
+  } catch {
+    return null;
+  }
+}
+
 // 使用 SSE 等待 review 完成
 function waitForReviewWithSSE(reviewId: string, timeout: number): Promise<Review | 'timeout'> {
   debug('waitForReviewWithSSE', { reviewId, timeout });
@@ -309,9 +357,8 @@ function waitForReviewWithSSE(reviewId: string, timeout: number): Promise<Review
               if (currentEventType !== 'heartbeat') {
                 debug('SSE event received', { type: currentEventType, data });
               }
-              // 处理 approved 和 changes_requested 两种状态
-              if (currentEventType === 'status_changed' &&
-                  (data.status === 'approved' || data.status === 'changes_requested')) {
+              // 处理 approved、rejected 和 changes_requested 三种状态
+              if (currentEventType === 'status_changed' && isDecided(data.status)) {
                 debug(`Review status changed to ${data.status} via SSE`);
                 resolved = true;
                 req.destroy();
@@ -360,8 +407,8 @@ async function pollForReview(reviewId: string, timeout: number): Promise<Review
     pollCount++;
     debug('pollForReview polling', { pollCount, elapsed: Date.now() - startTime });
     const review = await getReview(reviewId);
-    // 处理 approved 和 changes_requested 两种状态
-    if (review && (review.status === 'approved' || review.status === 'changes_requested')) {
+    // 处理 approved、rejected 和 changes_requested 三种状态
+    if (review && isDecided(review.status)) {
       debug(`pollForReview: review status is ${review.status}`, { pollCount });
       return review;
     }
@@ -372,85 +419,9 @@ async function pollForReview(reviewId: string, timeout: number): Promise<Review
   return 'timeout';
 }
 
-// 根据偏移量计算行号
-function calculateLineNumber(content: string, offset: number): number {
-  const textBefore = content.substring(0, offset);
-  return (textBefore.match(/\n/g) || []).length + 1;
-}
-
-// 判断是否为全局性批注
-function isGlobalComment(item: Review['comments'][0]): boolean {
-  return !item.quote || (item.position?.startOffset === 0 && item.position?.endOffset === 0);
-}
-
-// 格式化建议反馈（passThrough 模式使用，语气更柔和）
-function formatSuggestions(comments: Review['comments'], planContent: string): string {
-  const unresolvedComments = comments.filter(c => !c.resolved);
-  if (unresolvedComments.length === 0) return '';
-
-  // 分离普通批注和全局性批注
-  const lineComments = unresolvedComments.filter(c => !isGlobalComment(c));
-  const globalComments = unresolvedComments.filter(c => isGlobalComment(c));
-
-  let result = '';
-
-  // 格式化普通批注（带行号）
-  if (lineComments.length > 0) {
-    result = lineComments.map((item, index) => {
-      const pos = item.position;
-      if (!pos) return `${index + 1}. [引用: "${item.quote}"] → 建议: ${item.comment}`;
-
-      const startLine = calculateLineNumber(planContent, pos.startOffset);
-      const endLine = calculateLineNumber(planContent, pos.endOffset);
-      const lineInfo = startLine === endLine ? `行 ${startLine}` : `行 ${startLine}-${endLine}`;
-
-      return `${index + 1}. [${lineInfo}, 引用: "${item.quote}"] → 建议: ${item.comment}`;
-    }).join('\n');
-  }
-
-  // 格式化全局性批注
-  if (globalComments.length > 0) {
-    if (result) result += '\n\n';
-    result += '**全局性建议**:\n';
-    result += globalComments.map((item, index) => `${index + 1}. ${item.comment}`).join('\n');
-  }
-
-  return result;
-}
-
-// 格式化评论反馈（含行号和偏移量，区分普通批注和全局性批注）
-function formatComments(comments: Review['comments'], planContent: string): string {
-  const unresolvedComments = comments.filter(c => !c.resolved);
-  if (unresolvedComments.length === 0) return '';
-
-  // 分离普通批注和全局性批注
-  const lineComments = unresolvedComments.filter(c => !isGlobalComment(c));
-  const globalComments = unresolvedComments.filter(c => isGlobalComment(c));
-
-  let result = '';
-
-  // 格式化普通批注（带行号）
-  if (lineComments.length > 0) {
-    result = lineComments.map((item, index) => {
-      const pos = item.position;
-      const startLine = calculateLineNumber(planContent, pos.startOffset);
-      const endLine = calculateLineNumber(planContent, pos.endOffset);
-
-      const lineInfo = startLine === endLine ? `行 ${startLine}` : `行 ${startLine}-${endLine}`;
-      const offsetInfo = `偏移 ${pos.startOffset}-${pos.endOffset}`;
-
-      return `${index + 1}. [${lineInfo}, ${offsetInfo}, 引用: "${item.quote}"] → 评论: ${item.comment}`;
-    }).join('\n');
-  }
-
-  // 格式化全局性批注（单独说明）
-  if (globalComments.length > 0) {
-    if (result) result += '\n\n';
-    result += '**全局性审核意见**:\n';
-    result += globalComments.map((item, index) => `${index + 1}. ${item.comment}`).join('\n');
-  }
-
-  return result;
+// 审核者是否已做出决定（结束等待）
+function isDecided(status: Review['status']): boolean {
+  return status === 'approved' || status === 'rejected' || status === 'changes_requested';
 }
 
 // 主函数
@@ -488,10 +459,14 @@ async function main() {
     const rawPlanContent = input.tool_input?.plan || input.tool_input?.summary || 'Plan review requested';
     debug('Raw plan content extracted', { planContentLength: rawPlanContent.length });
 
-    // 检查是否包含 REVIEW_ID 标记（修订版本）
-    const existingReviewId = extractReviewId(rawPlanContent);
-    const planContent = existingReviewId ? removeReviewIdMarker(rawPlanContent) : rawPlanContent;
-    debug('Review ID check', { existingReviewId, cleanPlanLength: planContent.length });
+    // 检查是否包含 REVIEW_ID 标记（显式指定要修订的 review）
+    const markerReviewId = extractReviewId(rawPlanContent);
+    const planContent = markerReviewId ? removeReviewIdMarker(rawPlanContent) : rawPlanContent;
+    debug('Review ID check', { markerReviewId, cleanPlanLength: planContent.length });
+
+    const session: AgentSession | undefined = input.session_id
+      ? { sessionId: input.session_id, toolUseId: input.tool_use_id, transcriptPath: input.transcript_path }
+      : undefined;
 
     let review: Review;
     let isRevision = false;
@@ -505,29 +480,90 @@ async function main() {
       process.exit(0);
     }
 
+    // 没有标记时，同一会话中未完成的 review 自动作为修订对象；标记只用于显式覆盖
+    let existingReviewId = markerReviewId;
+    if (!existingReviewId && session) {
+      const sessionReview = await getSessionReview(session.sessionId);
+      existingReviewId = sessionReview?.id ?? null;
+      debug('Session review lookup', { sessionId: session.sessionId, existingReviewId });
+    }
+
     if (existingReviewId) {
       // 修订版本：更新已有 review
       debug('Revision detected, updating existing review', { reviewId: existingReviewId });
-      try {
-        // 先验证 review 是否存在
-        const existingReview = await getReview(existingReviewId);
-        if (!existingReview) {
-          throw new Error(`Review ${existingReviewId} not found`);
+      const existingReview = await getReview(existingReviewId);
+      // 已拒绝或已批准（如 hook 超时后才完成审核）的 review 不再接受修订，直接返回审核结果；
+      // 选择留在 Plan Mode 的批准除外，这次提交是继续完善后的修订版本。
+      // 批准只对审核者看到的内容有效，批准后计划被修改时需要重新审核
+      const continuePlanning = existingReview?.status === 'approved' && existingReview.approval?.mode === 'plan';
+      const changedAfterApproval = existingReview?.status === 'approved' && !continuePlanning
+        && existingReview.planContent.trim() !== planContent.trim();
+      if (existingReview && !continuePlanning && !changedAfterApproval
+        && (existingReview.status === 'rejected' || existingReview.status === 'approved')) {
+        const decision = await getReviewDecision(existingReviewId);
+        if (decision) {
+          debug(`Review already ${existingReview.status}, responding with its result`, { reviewId: existingReviewId });
+          respondToAgent(decision);
+          process.exit(0);
         }
-        // 更新 plan 内容
-        review = await updateReviewPlan(existingReviewId, planContent);
-        isRevision = true;
-        debug('Review updated successfully', { reviewId: review.id, status: review.status });
-      } catch (error) {
-        // 更新失败，回退到创建新 review
-        debug('Failed to update review, creating new one', { error: String(error) });
-        review = await createReview(planContent, input.cwd);
+      }
+
+      if (!existingReview) {
+        debug('Review not found, creating new one', { reviewId: existingReviewId });
+        review = await createReview(planContent, input.cwd, session);
         debug('New review created as fallback', { reviewId: review.id });
+      } else if (changedAfterApproval) {
+        debug('Plan changed after approval, starting a new review', { reviewId: existingReviewId });
+        review = await createReview(planContent, input.cwd, session);
+        debug('New review created for changed plan', { reviewId: review.id });
+      } else if (continuePlanning && existingReview.planContent.trim() === planContent.trim()) {
+        // 审核者选择留在 Plan Mode 后提交了相同的计划：不进入新一轮审核，避免反复返回同样的结果
+        debug('Plan unchanged since stay-in-plan-mode approval, blocking', { reviewId: existingReview.id });
+        respondToAgent({
+          decision: 'block',
+          reason: `计划与审核者选择"留在 Plan Mode"时的版本相同，**没有提交新的审核**（Review ID: ${existingReview.id}）。
+
+请根据审核者的意见继续完善计划，必要时向用户确认需要调整的内容；修改后再调用 ExitPlanMode，新的计划会作为该 review 的修订版本提交审核。`
+        });
+        process.exit(0);
+      } else if (existingReview.status === 'updated' || existingReview.status === 'open') {
+        if (existingReview.planContent.trim() !== planContent.trim()) {
+          // 审核者尚未给出反馈前不能提交新的修订，也不能把旧版本的审核结果当作这次提交的结果
+          debug('Review still awaiting feedback, plan differs, blocking', { reviewId: existingReview.id, status: existingReview.status });
+          blockPendingReview(existingReview);
+        }
+        // 内容已提交（通过 update_plan 工具，或上次 hook 等待超时），直接继续等待审核
+        review = existingReview;
+        isRevision = true;
+        debug('Plan already submitted, waiting for review', { reviewId: review.id, status: review.status });
+      } else {
+        try {
+          // 未使用 update_plan 时，由 hook 提交修订版本
+          review = await updateReviewPlan(existingReviewId, planContent, session);
+          debug('Review updated successfully', { reviewId: review.id, status: review.status });
+        } catch (error) {
+          if (TRANSITION_REJECTED.test(String(error))) {
+            // 当前状态不接受修订（如正在等待审核者回复提问）：不另起 review；
+            // 内容与审核中的版本一致时继续等待，否则告知 Agent 计划未提交
+            if (existingReview.planContent.trim() !== planContent.trim()) {
+              debug('Revision rejected by review state, blocking', { error: String(error) });
+              blockPendingReview(existingReview);
+            }
+            review = existingReview;
+            debug('Revision rejected by review state, waiting for existing review', { error: String(error) });
+          } else {
+            // 其他原因导致更新失败，回退到创建新 review
+            debug('Failed to update review, creating new one', { error: String(error) });
+            review = await createReview(planContent, input.cwd, session);
+            debug('New review created as fallback', { reviewId: review.id });
+          }
+        }
+        isRevision = review.id === existingReviewId;
       }
     } else {
       // 首次提交：创建新 review
       try {
-        review = await createReview(planContent, input.cwd);
+        review = await createReview(planContent, input.cwd, session);
         debug('New review session created', { reviewId: review.id, status: review.status });
       } catch (error) {
         // 服务器不可用时，允许通过
@@ -552,62 +588,19 @@ async function main() {
 
 审核界面已在浏览器中打开。用户可能仍在审核中。
 
-请告知用户：完成审核后，在终端输入 "continue"，然后调用 get_review_result 工具获取审核结果。`
+请告知用户：完成审核后，在终端输入 "continue"。然后调用 get_review_result 工具（reviewId: ${review.id}）获取审核结果，或调用 wait_for_review 工具继续等待。
+审核已批准时，计划内容不变地再次调用 ExitPlanMode 并在计划开头保留 <!-- REVIEW_ID: ${review.id} --> 标记即可直接通过。`
       });
       process.exit(0);
     }
 
-    // 审核完成
-    const reviewResult = result as Review;
-    const unresolvedCount = reviewResult.comments.filter(c => !c.resolved).length;
-    debug('Processing review result', {
-      isRevision,
-      approvedDirectly: reviewResult.approvedDirectly,
-      totalComments: reviewResult.comments.length,
-      unresolvedComments: unresolvedCount
-    });
-
-    if (reviewResult.approvedDirectly || unresolvedCount === 0) {
-      // 用户直接批准，允许 ExitPlanMode 执行
-      debug('Review approved, allowing ExitPlanMode');
-
-      // 构建批准指令
-      let reason = `用户已批准计划。
-
-**重要指令**：
-1. 退出 Plan Mode
-2. 切换到 Auto Accept Mode（自动接受编辑模式）
-3. 按照计划开始执行`;
-
-      // passThrough 模式：将评论作为建议附加
-      if (reviewResult.passThrough && unresolvedCount > 0) {
-        const suggestionsText = formatSuggestions(reviewResult.comments, reviewResult.planContent || '');
-        reason += `\n\n**用户建议**（非阻塞性反馈，可在实现过程中参考）：\n\n${suggestionsText}`;
-        debug('PassThrough mode: added suggestions to response', { unresolvedCount });
-      }
-
-      // 如果有 planContent，附加到 reason 中
-      if (reviewResult.planContent) {
-        reason += `\n\n**最终批准的 Plan 内容**：\n\n${reviewResult.planContent}`;
-      }
-
-      respondToAgent({ decision: 'approve', reason });
-    } else {
-      // 用户有反馈，阻止并返回评论
-      debug('Review has feedback, blocking ExitPlanMode');
-      const commentsText = formatComments(reviewResult.comments, reviewResult.planContent || '');
-      respondToAgent({
-        decision: 'block',
-        reason: `用户对计划有以下修改建议（Review ID: ${reviewResult.id}）：
-
-${commentsText}
-
-请根据以上反馈修改计划。修改时请在计划文件开头添加以下标记：
-<!-- REVIEW_ID: ${reviewResult.id} -->
-
-然后再次调用 ExitPlanMode 提交修订版本。`
-      });
+    // 审核完成，由 server 生成发给 Agent 的决定
+    const decision = await getReviewDecision(result.id);
+    if (!decision) {
+      throw new Error(`Failed to get review decision for ${result.id}`);
     }
+    debug('Review decision received', { isRevision, status: result.status, decision: decision.decision });
+    respondToAgent(decision);
 
     debug('Hook script completed successfully');
     process.exit(0);
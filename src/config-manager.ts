@@ -1,6 +1,6 @@
 /**
  * 配置文件管理器
- * 管理插件配置，包括评论模板和通知设置
+ * 管理插件配置，包括评论模板、通知设置和存储后端
  * 配置文件路径: ~/.claude/cc-plan-review/config.json
  */
 
@@ -26,11 +26,20 @@ export interface NotificationSettings {
   timeoutWarning: boolean;
 }
 
+// 存储后端类型
+export type StorageBackend = 'file' | 'sqlite';
+
+// 存储设置（修改后需重启 server 生效）
+export interface StorageSettings {
+  backend: StorageBackend;
+}
+
 // 插件配置
 export interface PluginConfig {
   version: string;
   templates: CommentTemplate[];
   notification: NotificationSettings;
+  storage: StorageSettings;
 }
 
 // 配置文件路径
@@ -73,11 +82,17 @@ const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
   timeoutWarning: true
 };
 
+// 默认存储设置
+const DEFAULT_STORAGE_SETTINGS: StorageSettings = {
+  backend: 'file'
+};
+
 // 默认配置
 const DEFAULT_CONFIG: PluginConfig = {
   version: '1.0.0',
   templates: BUILT_IN_TEMPLATES,
-  notification: DEFAULT_NOTIFICATION_SETTINGS
+  notification: DEFAULT_NOTIFICATION_SETTINGS,
+  storage: DEFAULT_STORAGE_SETTINGS
 };
 
 class ConfigManager {
@@ -100,6 +115,9 @@ class ConfigManager {
       const customTemplates = loaded.templates.filter(t => !t.isBuiltIn);
       loaded.templates = [...BUILT_IN_TEMPLATES, ...customTemplates];
 
+      // 旧配置文件没有 storage 字段，使用默认值补齐
+      loaded.storage = { ...DEFAULT_STORAGE_SETTINGS, ...loaded.storage };
+
       this.config = loaded;
       logger.info('Config loaded from file');
     } catch (error: any) {
@@ -216,6 +234,14 @@ class ConfigManager {
     return config.notification;
   }
 
+  /**
+   * 获取存储设置
+   */
+  async getStorageSettings(): Promise<StorageSettings> {
+    const config = await this.load();
+    return config.storage;
+  }
+
   /**
    * 获取完整配置
    */
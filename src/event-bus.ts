@@ -1,13 +1,16 @@
 import { EventEmitter } from 'events';
 import { logger } from './logger.js';
-import type { ReviewStatus, CommentQuestion } from './review-manager.js';
+import type { Review, ReviewStatus, CommentQuestion, CommentMessage, PendingMerge, ApprovalRevocation } from './review-manager.js';
 
 // SSE 事件类型
 export type SSEEventType =
   | 'connected'         // 连接建立，返回完整 Review 数据
+  | 'review_created'    // 新建 review（MCP 据此通知资源列表变更）
   | 'status_changed'    // 状态变更
   | 'version_updated'   // 新版本提交
   | 'questions_updated' // Agent 提交了 questions
+  | 'merge_conflict'    // Agent 修订与人工修改冲突，等待解决
+  | 'approval_revoked'  // 审核者撤回了批准，重新请求修改
   | 'heartbeat';        // 心跳
 
 // 事件数据类型
@@ -32,13 +35,22 @@ export interface QuestionsUpdatedData {
   questions: Array<{
     commentId: string;
     question: CommentQuestion;
+    message?: CommentMessage;   // 追加到评论讨论串的消息
   }>;
 }
 
+export interface MergeConflictData {
+  pendingMerge: PendingMerge;
+}
+
+export interface ApprovalRevokedData {
+  revocation: ApprovalRevocation;
+}
+
 export interface ReviewEvent {
   reviewId: string;
   type: SSEEventType;
-  data: StatusChangedData | VersionUpdatedData | QuestionsUpdatedData | { timestamp: number } | unknown;
+  data: StatusChangedData | VersionUpdatedData | QuestionsUpdatedData | MergeConflictData | ApprovalRevokedData | { timestamp: number } | unknown;
   timestamp: number;
 }
 
@@ -53,6 +65,15 @@ class ReviewEventBus extends EventEmitter {
     this.eventCounter++;
     logger.debug(`EventBus: Emitting ${event.type} for review ${event.reviewId}`);
     this.emit(`review:${event.reviewId}`, fullEvent);
+    this.emit('review', fullEvent);
+  }
+
+  // 订阅所有 review 的事件（MCP 资源更新通知使用）
+  subscribeToAllReviews(callback: (event: ReviewEvent) => void): () => void {
+    this.on('review', callback);
+    return () => {
+      this.off('review', callback);
+    };
   }
 
   subscribeToReview(reviewId: string, callback: (event: ReviewEvent) => void): () => void {
@@ -66,6 +87,15 @@ class ReviewEventBus extends EventEmitter {
     };
   }
 
+  // 便捷方法：发送新建 review 事件
+  emitReviewCreated(reviewId: string, projectPath?: string): void {
+    this.emitReviewEvent({
+      reviewId,
+      type: 'review_created',
+      data: { projectPath }
+    });
+  }
+
   // 便捷方法：发送状态变更事件
   emitStatusChanged(reviewId: string, status: ReviewStatus, previousStatus: ReviewStatus, planContent?: string): void {
     this.emitReviewEvent({
@@ -97,6 +127,59 @@ class ReviewEventBus extends EventEmitter {
       data: { questions }
     });
   }
+
+  // 便捷方法：发送合并冲突事件
+  emitMergeConflict(reviewId: string, pendingMerge: PendingMerge): void {
+    this.emitReviewEvent({
+      reviewId,
+      type: 'merge_conflict',
+      data: { pendingMerge }
+    });
+  }
+
+  // 便捷方法：计划内容更新后，发送新版本、合并冲突及状态变更事件（HTTP 接口与 update_plan 工具共用）
+  emitPlanUpdated(reviewId: string, before: Review | null, after: Review): void {
+    if (before?.currentVersion !== after.currentVersion) {
+      const newVersion = after.documentVersions.find(v => v.versionHash === after.currentVersion);
+      if (newVersion) {
+        // 计算实际被 resolve 的评论（从未解决变为已解决）
+        const previousUnresolvedIds = before?.comments.filter(c => !c.resolved).map(c => c.id) || [];
+        const actuallyResolved = after.comments
+          .filter(c => c.resolved && previousUnresolvedIds.includes(c.id))
+          .map(c => ({ commentId: c.id, resolution: c.resolution || '已在修订版本中处理' }));
+
+        this.emitVersionUpdated(
+          reviewId,
+          {
+            versionHash: newVersion.versionHash,
+            createdAt: newVersion.createdAt,
+            changeDescription: newVersion.changeDescription,
+            author: newVersion.author
+          },
+          newVersion.content,
+          actuallyResolved
+        );
+      }
+    }
+
+    if (after.pendingMerge && !before?.pendingMerge) {
+      this.emitMergeConflict(reviewId, after.pendingMerge);
+    }
+
+    // 触发状态变更事件
+    if (before && before.status !== after.status) {
+      this.emitStatusChanged(reviewId, after.status, before.status);
+    }
+  }
+
+  // 便捷方法：发送批准撤回事件
+  emitApprovalRevoked(reviewId: string, revocation: ApprovalRevocation): void {
+    this.emitReviewEvent({
+      reviewId,
+      type: 'approval_revoked',
+      data: { revocation }
+    });
+  }
 }
 
 export const reviewEventBus = new ReviewEventBus();
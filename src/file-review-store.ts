@@ -0,0 +1,635 @@
+/**
+ * 基于 JSON 文件的 Review 存储
+ * 目录结构：
+ *   reviews/{id}.json                  - 未关联项目的 review
+ *   reviews/{projectDirName}/{id}.json - 关联项目的 review（目录名规则见 project-path.ts）
+ *   reviews/{projectDirName}/.project  - 项目元数据，记录目录对应的原始项目路径
+ *   reviews/.sessions                  - Agent 会话 -> review 索引（hook 每次调用都会按会话查找，避免扫描全部 review）
+ *
+ * 并发安全：
+ * - 写入先落到临时文件再 rename，进程崩溃不会留下半截 JSON
+ * - 每个 review 使用 {id}.json.lock 作为跨进程锁（hook 脚本、stdio server、http-only server 可能同时修改）
+ * - 写入前保留上一份内容到 {id}.json.bak，读取到损坏文件时用于恢复
+ *
+ * 旧版本格式的文件在读取时迁移到当前 schema 并写回（见 review-schema.ts）
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from './logger.js';
+import type { Review } from './review-manager.js';
+import type { ReviewStore, ReviewMutator } from './review-store.js';
+import { parseStoredReview, type ParsedReview } from './review-schema.js';
+import { decodeProjectPath, isLegacyEncoded, isProjectDirName, projectDirName } from './project-path.js';
+
+const LOCK_RETRY_INTERVAL = 25;   // 获取锁的重试间隔（毫秒）
+const LOCK_TIMEOUT = 10000;       // 获取锁的最长等待时间
+const STALE_LOCK_AGE = 30000;     // 超过该时长的锁视为持有进程已崩溃
+const PROJECT_META_FILE = '.project';  // 项目目录元数据（不以 .json 结尾，避免被当作 review 读取）
+
+const SESSION_INDEX_FILE = '.sessions';
+
+interface ProjectMeta {
+  projectPath: string;
+}
+
+// sessionId -> 关联到该会话的 reviews
+type SessionIndex = Record<string, Array<{ id: string; projectPath?: string }>>;
+
+// 获取文件锁（O_EXCL 创建锁文件）
+async function acquireLock(filePath: string): Promise<string> {
+  const lockPath = `${filePath}.lock`;
+  const startTime = Date.now();
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+      await handle.close();
+      return lockPath;
+    } catch (e: any) {
+      if (e.code !== 'EEXIST') throw e;
+    }
+
+    // 清理崩溃进程遗留的锁
+    try {
+      const stats = await fs.stat(lockPath);
+      if (Date.now() - stats.mtimeMs > STALE_LOCK_AGE) {
+        logger.warn(`Removing stale lock ${lockPath}`);
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      // 锁已被释放，立即重试
+      continue;
+    }
+
+    if (Date.now() - startTime > LOCK_TIMEOUT) {
+      throw new Error(`Timed out waiting for lock on ${path.basename(filePath)}`);
+    }
+    await new Promise(r => setTimeout(r, LOCK_RETRY_INTERVAL));
+  }
+}
+
+async function releaseLock(lockPath: string): Promise<void> {
+  await fs.rm(lockPath, { force: true });
+}
+
+// 原子写入：写临时文件 → fsync → 备份旧文件 → rename
+async function writeFileAtomic(filePath: string, data: string, options?: { backup?: boolean }): Promise<void> {
+  const tmpPath = `${filePath}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
+  const handle = await fs.open(tmpPath, 'w');
+  try {
+    await handle.writeFile(data, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  if (options?.backup !== false) {
+    try {
+      await fs.copyFile(filePath, `${filePath}.bak`);
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') {
+        logger.warn(`Failed to back up ${filePath}: ${e.message}`);
+      }
+    }
+  }
+
+  await fs.rename(tmpPath, filePath);
+}
+
+// 解析 review JSON，内容为空或被截断时返回 null；结构校验失败时抛出异常
+function parseReview(data: string): ParsedReview | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  return parseStoredReview(raw);
+}
+
+// 同 parseReview，但结构校验失败也返回 null（用于挑选可恢复的备份）
+function tryParseReview(data: string): ParsedReview | null {
+  try {
+    return parseReview(data);
+  } catch {
+    return null;
+  }
+}
+
+export class FileReviewStore implements ReviewStore {
+  readonly backend = 'file' as const;
+  private dataDir: string;
+  private initialized = false;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  private getProjectDataDir(projectPath: string): string {
+    return path.join(this.dataDir, projectDirName(projectPath));
+  }
+
+  // 创建项目目录并记录原始路径（目录名只包含哈希和截断的可读部分，无法解码）
+  private async ensureProjectDir(projectPath: string): Promise<string> {
+    const dir = this.getProjectDataDir(projectPath);
+    await fs.mkdir(dir, { recursive: true });
+    const metaPath = path.join(dir, PROJECT_META_FILE);
+    try {
+      await fs.access(metaPath);
+    } catch {
+      const meta: ProjectMeta = { projectPath };
+      await writeFileAtomic(metaPath, JSON.stringify(meta, null, 2), { backup: false });
+    }
+    return dir;
+  }
+
+  private async readProjectMeta(dir: string): Promise<ProjectMeta | null> {
+    try {
+      const meta = JSON.parse(await fs.readFile(path.join(dir, PROJECT_META_FILE), 'utf-8'));
+      return typeof meta?.projectPath === 'string' ? meta : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getFilePath(review: Review): string {
+    const dir = review.projectPath
+      ? this.getProjectDataDir(review.projectPath)
+      : this.dataDir;
+    return path.join(dir, `${review.id}.json`);
+  }
+
+  async init(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+    await fs.mkdir(this.dataDir, { recursive: true });
+    await this.migrateLegacyProjectDirs();
+    await this.ensureSessionIndex();
+    logger.info(`Data directory initialized at ${this.dataDir}`);
+  }
+
+  private get sessionIndexPath(): string {
+    return path.join(this.dataDir, SESSION_INDEX_FILE);
+  }
+
+  private async readSessionIndex(): Promise<SessionIndex | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.sessionIndexPath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  // 索引不存在或损坏时按已有 review 重建（只在初始化时扫描一次）
+  private async ensureSessionIndex(): Promise<void> {
+    if (await this.readSessionIndex()) return;
+
+    const index: SessionIndex = {};
+    for (const review of await this.listAll()) {
+      const sessionId = review.session?.sessionId;
+      if (sessionId) {
+        (index[sessionId] ??= []).push({ id: review.id, projectPath: review.projectPath });
+      }
+    }
+
+    const lockPath = await acquireLock(this.sessionIndexPath);
+    try {
+      // 其他进程可能已经建好索引
+      if (!await this.readSessionIndex()) {
+        await writeFileAtomic(this.sessionIndexPath, JSON.stringify(index), { backup: false });
+        logger.info(`Built session index for ${Object.keys(index).length} agent sessions`);
+      }
+    } finally {
+      await releaseLock(lockPath);
+    }
+  }
+
+  // 把关联了 Agent 会话的 review 加入索引
+  private async indexSession(review: Review): Promise<void> {
+    const sessionId = review.session?.sessionId;
+    if (!sessionId) return;
+    if ((await this.readSessionIndex())?.[sessionId]?.some(e => e.id === review.id)) return;
+
+    const lockPath = await acquireLock(this.sessionIndexPath);
+    try {
+      const index = await this.readSessionIndex() ?? {};
+      const entries = index[sessionId] ?? [];
+      if (!entries.some(e => e.id === review.id)) {
+        index[sessionId] = [...entries, { id: review.id, projectPath: review.projectPath }];
+        await writeFileAtomic(this.sessionIndexPath, JSON.stringify(index), { backup: false });
+      }
+    } finally {
+      await releaseLock(lockPath);
+    }
+  }
+
+  /**
+   * 迁移旧版本创建的项目目录（_ 编码或 encodeURIComponent 编码，后者可能超出 NAME_MAX）
+   * 旧目录名不一定能可靠解码，按 review 文件中记录的 projectPath 重新归档；
+   * 同一个旧目录可能混有多个项目（如 /a/my_app 与 /a/my/app），会被拆分到各自的目录
+   */
+  private async migrateLegacyProjectDirs(): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(this.dataDir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || isProjectDirName(entry.name)) continue;
+
+      const legacyDir = path.join(this.dataDir, entry.name);
+      // 缺少 projectPath 的旧数据按目录名解码（_ 编码的目录只能有损解码）
+      const fallbackPath = (isLegacyEncoded(entry.name) ? '/' + entry.name.replace(/_/g, '/') : decodeProjectPath(entry.name))
+        || entry.name;
+
+      // 按 review 分组：{id}.json 及其 .bak 备份、.corrupt-* 隔离文件；锁和临时文件不属于任何分组
+      const reviewFiles = new Set<string>();
+      for (const file of await fs.readdir(legacyDir)) {
+        const match = /^(.+\.json)(\.bak|\.corrupt-\d+)?$/.exec(file);
+        if (match) {
+          reviewFiles.add(match[1]);
+        }
+      }
+
+      let migrated = 0;
+      for (const file of reviewFiles) {
+        if (await this.migrateLegacyReview(legacyDir, file, fallbackPath)) {
+          migrated++;
+        }
+      }
+
+      try {
+        await fs.rmdir(legacyDir);
+      } catch {
+        // 目录非空（有迁移失败的文件、其他进程持有的锁或遗留的临时文件，下次启动时重试）或已被其他进程删除
+      }
+      logger.info(`Migrated ${migrated} reviews from legacy project directory ${entry.name}`);
+    }
+  }
+
+  // 在 review 的锁内将它及其备份、隔离文件移动到新的项目目录，返回 review 文件是否已迁移
+  private async migrateLegacyReview(legacyDir: string, file: string, fallbackPath: string): Promise<boolean> {
+    const filePath = path.join(legacyDir, file);
+    let lockPath: string;
+    try {
+      lockPath = await acquireLock(filePath);
+    } catch (e) {
+      logger.warn(`Skipped migrating ${filePath}: ${(e as Error).message}`);
+      return false;
+    }
+
+    try {
+      // review 文件损坏时 readReviewFile 会尝试从 .bak 恢复；文件已不存在时从 .bak 中取 projectPath
+      const review = await this.readReviewFile(filePath, { locked: true })
+        ?? tryParseReview(await fs.readFile(`${filePath}.bak`, 'utf-8').catch(() => ''))?.review;
+      const targetDir = await this.ensureProjectDir(review?.projectPath || fallbackPath);
+
+      const related = (await fs.readdir(legacyDir))
+        .filter(f => f === file || f === `${file}.bak` || f.startsWith(`${file}.corrupt-`));
+      for (const f of related) {
+        await fs.rename(path.join(legacyDir, f), path.join(targetDir, f));
+      }
+      return related.includes(file);
+    } catch (e) {
+      logger.warn(`Failed to migrate ${filePath}: ${(e as Error).message}`);
+      return false;
+    } finally {
+      await releaseLock(lockPath);
+    }
+  }
+
+  async save(review: Review): Promise<void> {
+    await this.init();
+    const filePath = this.getFilePath(review);
+    if (review.projectPath) {
+      await this.ensureProjectDir(review.projectPath);
+    } else {
+      await fs.mkdir(this.dataDir, { recursive: true });
+    }
+
+    const lockPath = await acquireLock(filePath);
+    try {
+      await writeFileAtomic(filePath, JSON.stringify(review, null, 2));
+    } finally {
+      await releaseLock(lockPath);
+    }
+    await this.indexSession(review);
+    logger.debug(`Saved review ${review.id} to ${filePath}`);
+  }
+
+  async update(id: string, mutate: ReviewMutator): Promise<Review | null> {
+    await this.init();
+    const filePath = await this.locate(id);
+    if (!filePath) return null;
+
+    const lockPath = await acquireLock(filePath);
+    let review: Review | null;
+    try {
+      // 在锁内重新读取，确保基于最新内容修改
+      review = await this.readReviewFile(filePath, { locked: true });
+      if (!review) return null;
+
+      if (mutate(review) === false) {
+        return review;
+      }
+
+      await writeFileAtomic(filePath, JSON.stringify(review, null, 2));
+      logger.debug(`Updated review ${id} at ${filePath}`);
+    } finally {
+      await releaseLock(lockPath);
+    }
+    // 修订时可能新关联了 Agent 会话
+    await this.indexSession(review);
+    return review;
+  }
+
+  async get(id: string, projectPath?: string): Promise<Review | null> {
+    await this.init();
+
+    // 在指定项目目录查找
+    if (projectPath) {
+      const filePath = path.join(this.getProjectDataDir(projectPath), `${id}.json`);
+      const review = await this.readReviewFile(filePath);
+      if (!review) {
+        logger.warn(`Failed to load review ${id} from project ${projectPath}`);
+      }
+      return review;
+    }
+
+    const filePath = await this.locate(id);
+    if (filePath) {
+      return this.readReviewFile(filePath);
+    }
+
+    logger.warn(`Failed to load review ${id}: not found in any location`);
+    return null;
+  }
+
+  async getLatest(projectPath?: string): Promise<Review | null> {
+    await this.init();
+    const searchDir = projectPath ? this.getProjectDataDir(projectPath) : this.dataDir;
+
+    try {
+      await fs.access(searchDir);
+    } catch {
+      return null;
+    }
+
+    try {
+      const files = await fs.readdir(searchDir);
+      const jsonFiles = files.filter(f => f.endsWith('.json'));
+
+      if (jsonFiles.length === 0) return null;
+
+      let latestFile: string | null = null;
+      let maxTime = 0;
+
+      for (const file of jsonFiles) {
+        const stats = await fs.stat(path.join(searchDir, file));
+        if (stats.mtimeMs > maxTime) {
+          maxTime = stats.mtimeMs;
+          latestFile = file;
+        }
+      }
+
+      if (!latestFile) return null;
+      return this.readReviewFile(path.join(searchDir, latestFile));
+    } catch (e) {
+      logger.error("Error getting latest review:", e);
+      return null;
+    }
+  }
+
+  async listPending(projectPath?: string): Promise<Review[]> {
+    await this.init();
+    const reviews = projectPath
+      ? await this.readDir(this.getProjectDataDir(projectPath))
+      : await this.listAll();
+
+    // 按创建时间倒序排列
+    return reviews
+      .filter(r => r.status !== 'approved' && r.status !== 'rejected')
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async listBySession(sessionId: string): Promise<Review[]> {
+    await this.init();
+    const entries = (await this.readSessionIndex())?.[sessionId] ?? [];
+    const reviews: Review[] = [];
+    for (const entry of entries) {
+      const review = await this.get(entry.id, entry.projectPath);
+      // 索引只增不减，以 review 中记录的会话为准
+      if (review?.session?.sessionId === sessionId) {
+        reviews.push(review);
+      }
+    }
+    return reviews.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async listAll(): Promise<Review[]> {
+    await this.init();
+    const results = await this.readDir(this.dataDir);
+
+    // 搜索项目子目录
+    try {
+      const entries = await fs.readdir(this.dataDir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          results.push(...await this.readDir(path.join(this.dataDir, entry.name)));
+        }
+      }
+    } catch {
+      // 目录不存在
+    }
+
+    return results;
+  }
+
+  async listProjects(): Promise<string[]> {
+    await this.init();
+    const projects: string[] = [];
+
+    try {
+      const entries = await fs.readdir(this.dataDir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isDirectory() || !isProjectDirName(entry.name)) continue;
+        const meta = await this.readProjectMeta(path.join(this.dataDir, entry.name));
+        if (meta) {
+          projects.push(meta.projectPath);
+        }
+      }
+    } catch {
+      // 目录不存在
+    }
+
+    return projects.sort();
+  }
+
+  async close(): Promise<void> {
+    // 文件存储无需释放资源
+  }
+
+  // 查找 review 文件路径：先查全局目录，再查所有项目目录
+  private async locate(id: string): Promise<string | null> {
+    const candidates = [path.join(this.dataDir, `${id}.json`)];
+
+    try {
+      const entries = await fs.readdir(this.dataDir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          candidates.push(path.join(this.dataDir, entry.name, `${id}.json`));
+        }
+      }
+    } catch {
+      // 目录不存在
+    }
+
+    for (const candidate of candidates) {
+      try {
+        await fs.access(candidate);
+        return candidate;
+      } catch {
+        // 继续搜索下一个位置
+      }
+    }
+    return null;
+  }
+
+  // 读取 review 文件，检测到损坏时尝试恢复
+  private async readReviewFile(filePath: string, options?: { locked?: boolean }): Promise<Review | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') {
+        logger.warn(`Failed to read review file ${filePath}: ${e.message}`);
+      }
+      return null;
+    }
+
+    let parsed: ParsedReview | null;
+    try {
+      parsed = parseReview(data);
+    } catch (e) {
+      // JSON 完整但结构无效，不是写入中断导致的，不做恢复
+      logger.error(`Review file ${filePath} failed schema validation: ${(e as Error).message}`);
+      return null;
+    }
+
+    if (parsed) {
+      if (parsed.migrated) {
+        await this.writeMigrated(filePath, options);
+      }
+      return parsed.review;
+    }
+
+    logger.error(`Review file ${filePath} is corrupted (${data.length} bytes), attempting recovery`);
+    if (options?.locked) {
+      return this.recover(filePath);
+    }
+
+    const lockPath = await acquireLock(filePath);
+    try {
+      // 等待锁期间可能已被其他进程恢复或重写
+      const current = tryParseReview(await fs.readFile(filePath, 'utf-8').catch(() => ''));
+      return current?.review ?? await this.recover(filePath);
+    } finally {
+      await releaseLock(lockPath);
+    }
+  }
+
+  // 将旧版本格式的文件升级为当前 schema 写回
+  private async writeMigrated(filePath: string, options?: { locked?: boolean }): Promise<void> {
+    const lockPath = options?.locked ? null : await acquireLock(filePath);
+    try {
+      // 在锁内重新读取，避免覆盖其他进程的写入
+      const current = tryParseReview(await fs.readFile(filePath, 'utf-8').catch(() => ''));
+      if (current?.migrated) {
+        await writeFileAtomic(filePath, JSON.stringify(current.review, null, 2));
+        logger.info(`Migrated review ${current.review.id} to schema v${current.review.schemaVersion}`);
+      }
+    } catch (e) {
+      // 写回失败不影响本次读取，下次读取时会再次迁移
+      logger.warn(`Failed to write migrated review ${filePath}: ${(e as Error).message}`);
+    } finally {
+      if (lockPath) {
+        await releaseLock(lockPath);
+      }
+    }
+  }
+
+  /**
+   * 恢复损坏的 review 文件（调用方需持有锁）
+   * 1. 使用 .bak 备份
+   * 2. 使用遗留的 .tmp 临时文件（最新的优先）
+   * 3. 都不可用时将损坏文件重命名为 .corrupt-{timestamp}，避免反复报错
+   */
+  private async recover(filePath: string): Promise<Review | null> {
+    const dir = path.dirname(filePath);
+    const base = path.basename(filePath);
+    const candidates: Array<{ file: string; mtimeMs: number }> = [];
+
+    try {
+      const files = await fs.readdir(dir);
+      for (const file of files) {
+        if (file.startsWith(`${base}.`) && file.endsWith('.tmp')) {
+          const stats = await fs.stat(path.join(dir, file));
+          candidates.push({ file: path.join(dir, file), mtimeMs: stats.mtimeMs });
+        }
+      }
+    } catch {
+      // 目录不可读
+    }
+    candidates.sort((a, b) => b.mtimeMs - a.mtimeMs);
+    candidates.unshift({ file: `${filePath}.bak`, mtimeMs: 0 });
+
+    for (const candidate of candidates) {
+      const data = await fs.readFile(candidate.file, 'utf-8').catch(() => '');
+      const review = tryParseReview(data)?.review;
+      if (review) {
+        // 恢复时不备份损坏的文件，避免覆盖可用的 .bak
+        await writeFileAtomic(filePath, JSON.stringify(review, null, 2), { backup: false });
+        logger.warn(`Recovered review ${review.id} from ${path.basename(candidate.file)}`);
+        return review;
+      }
+    }
+
+    const quarantinePath = `${filePath}.corrupt-${Date.now()}`;
+    await fs.rename(filePath, quarantinePath).catch(() => {});
+    logger.error(`Could not recover ${filePath}, moved to ${quarantinePath}`);
+    return null;
+  }
+
+  // 读取目录下的所有 review 文件
+  private async readDir(dir: string): Promise<Review[]> {
+    const results: Review[] = [];
+
+    try {
+      await fs.access(dir);
+    } catch {
+      return results;
+    }
+
+    try {
+      const files = await fs.readdir(dir);
+      const jsonFiles = files.filter(f => f.endsWith('.json'));
+
+      for (const file of jsonFiles) {
+        const review = await this.readReviewFile(path.join(dir, file));
+        if (review) {
+          results.push(review);
+        }
+      }
+    } catch (e) {
+      logger.error("Error reading reviews directory:", e);
+    }
+
+    return results;
+  }
+}
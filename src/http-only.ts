@@ -6,6 +6,7 @@
  */
 
 import { ReviewManager } from './review-manager.js';
+import { createReviewStore } from './review-store.js';
 import { McpService } from './mcp-server.js';
 import { HttpServer } from './http-server.js';
 import { logger } from './logger.js';
@@ -13,7 +14,8 @@ import { logger } from './logger.js';
 async function main() {
   logger.info('Starting HTTP-only server...');
 
-  const reviewManager = new ReviewManager();
+  const reviewStore = await createReviewStore();
+  const reviewManager = new ReviewManager(reviewStore);
   const mcpService = new McpService(reviewManager);
 
   const httpServer = new HttpServer(reviewManager, mcpService, {
@@ -34,15 +36,17 @@ async function main() {
   }
 
   // 优雅关闭
-  process.on('SIGTERM', () => {
+  process.on('SIGTERM', async () => {
     logger.info('Received SIGTERM, shutting down...');
     httpServer.stop();
+    await reviewStore.close();
     process.exit(0);
   });
 
-  process.on('SIGINT', () => {
+  process.on('SIGINT', async () => {
     logger.info('Received SIGINT, shutting down...');
     httpServer.stop();
+    await reviewStore.close();
     process.exit(0);
   });
 }
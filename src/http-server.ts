@@ -2,8 +2,9 @@ import express, { Request, Response } from "express";
 import path from "path";
 import { AddressInfo } from "net";
 import open from "open";
-import { ReviewManager } from "./review-manager.js";
+import { ReviewManager, COMMENT_SEVERITIES, APPROVAL_MODES, SECTION_REVIEW_STATUSES, hasBlockingComments, sectionsRequestingChanges, isAwaitingVerification, type ApprovalSettings, type AgentSession } from "./review-manager.js";
 import { McpService } from "./mcp-server.js";
+import { getReviewResult } from "./review-feedback.js";
 import { logger } from "./logger.js";
 import { sseManager } from "./sse-manager.js";
 import { reviewEventBus } from "./event-bus.js";
@@ -20,6 +21,15 @@ export interface HttpServerOptions {
 
 const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 分钟
 
+// 校验 hook 提交的 Agent 会话信息
+function isAgentSession(value: unknown): value is AgentSession {
+  if (typeof value !== 'object' || value === null) return false;
+  const { sessionId, toolUseId, transcriptPath } = value as Record<string, unknown>;
+  return typeof sessionId === 'string' && sessionId !== ''
+    && (toolUseId === undefined || typeof toolUseId === 'string')
+    && (transcriptPath === undefined || typeof transcriptPath === 'string');
+}
+
 export class HttpServer {
   private app: express.Express;
   private reviewManager: ReviewManager;
@@ -98,13 +108,18 @@ export class HttpServer {
     // Create Review via API (for hook script)
     this.app.post("/api/reviews", async (req: Request, res: Response) => {
       try {
-        const { plan, projectPath } = req.body;
+        const { plan, projectPath, session } = req.body;
         if (!plan) {
           res.status(400).json({ error: "Missing 'plan' field" });
           return;
         }
+        if (session !== undefined && !isAgentSession(session)) {
+          res.status(400).json({ error: "Invalid 'session' field: requires a non-empty 'sessionId'" });
+          return;
+        }
 
-        const review = await this.reviewManager.createReview(plan, projectPath);
+        const review = await this.reviewManager.createReview(plan, projectPath, { session });
+        reviewEventBus.emitReviewCreated(review.id, review.projectPath);
 
         // 自动打开浏览器
         const url = `http://localhost:${this.port}/review/${review.id}`;
@@ -121,6 +136,16 @@ export class HttpServer {
       }
     });
 
+    // Get Session Review (for hook script：同一会话的下一次提交作为修订版本)
+    this.app.get("/api/reviews/session/:sessionId", async (req: Request, res: Response) => {
+      const review = await this.reviewManager.getSessionReview(req.params.sessionId);
+      if (!review) {
+        res.status(404).json({ error: "No active review for this session" });
+        return;
+      }
+      res.json(review);
+    });
+
     // Get Latest Review (for hook script)
     this.app.get("/api/reviews/latest", async (req: Request, res: Response) => {
       const projectPath = req.query.project as string | undefined;
@@ -145,28 +170,41 @@ export class HttpServer {
     // Create Comment
     this.app.post("/api/reviews/:id/comments", async (req: Request, res: Response) => {
       try {
-        const { quote, comment, position } = req.body;
+        const { quote, comment, position, severity, replacement } = req.body;
 
-        // comment 是必需字段，quote 和 position 可选（全局性批注时可为空）
-        if (!comment) {
+        // comment 是必需字段（建议评论可只提供 replacement），quote 和 position 可选（全局性批注时可为空）
+        if (!comment && replacement === undefined) {
           res.status(400).json({ error: "Missing required field: comment" });
           return;
         }
 
+        if (replacement !== undefined && (typeof replacement !== 'string' || !quote || !position)) {
+          res.status(400).json({ error: "Invalid replacement: must be a string and requires quote and position" });
+          return;
+        }
+
         // 如果提供了 position，验证格式
         if (position && (typeof position.startOffset !== 'number' || typeof position.endOffset !== 'number')) {
           res.status(400).json({ error: "Invalid position: startOffset and endOffset must be numbers" });
           return;
         }
 
+        if (severity !== undefined && !COMMENT_SEVERITIES.includes(severity)) {
+          res.status(400).json({ error: `Invalid severity: must be one of ${COMMENT_SEVERITIES.join(', ')}` });
+          return;
+        }
+
         const newComment = await this.reviewManager.addComment(req.params.id, {
           quote: quote || '',
-          comment,
-          position: position || undefined
+          comment: comment || '',
+          position: position || undefined,
+          severity,
+          replacement
         });
         res.json(newComment);
       } catch (e: any) {
-        const statusCode = e.message === 'Review not found' ? 404 : 500;
+        const statusCode = e.message === 'Review not found' ? 404
+          : e.message.includes('does not match') ? 400 : 500;
         res.status(statusCode).json({ error: e.message });
       }
     });
@@ -192,59 +230,97 @@ export class HttpServer {
       }
     });
 
+    // Apply Suggestion (creates new human version)
+    this.app.post("/api/reviews/:id/comments/:commentId/apply", async (req: Request, res: Response) => {
+      try {
+        const review = await this.reviewManager.getReview(req.params.id);
+        const updatedReview = await this.reviewManager.applySuggestion(req.params.id, req.params.commentId);
+        reviewEventBus.emitPlanUpdated(req.params.id, review, updatedReview);
+
+        res.json(updatedReview);
+      } catch (e: any) {
+        const statusCode = e.message.includes('not found') ? 404 : e.message.includes('changed') ? 409 : 400;
+        res.status(statusCode).json({ error: e.message });
+      }
+    });
+
+    // Confirm Addressed Comment (Agent 修订后的复核)
+    this.app.post("/api/reviews/:id/comments/:commentId/confirm", async (req: Request, res: Response) => {
+      try {
+        const comment = await this.reviewManager.confirmComment(req.params.id, req.params.commentId);
+        res.json({ status: "ok", comment });
+      } catch (e: any) {
+        const statusCode = e.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({ error: e.message });
+      }
+    });
+
+    // Reopen Resolved Comment (下次反馈时重新发给 Agent)
+    this.app.post("/api/reviews/:id/comments/:commentId/reopen", async (req: Request, res: Response) => {
+      try {
+        const { note } = req.body || {};
+        if (note !== undefined && typeof note !== 'string') {
+          res.status(400).json({ error: "Invalid 'note' field" });
+          return;
+        }
+
+        const comment = await this.reviewManager.reopenComment(req.params.id, req.params.commentId, note?.trim() || undefined);
+        res.json({ status: "ok", comment });
+      } catch (e: any) {
+        const statusCode = e.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({ error: e.message });
+      }
+    });
+
     // Update Plan Content (creates new version)
     this.app.put("/api/reviews/:id/plan", async (req: Request, res: Response) => {
       try {
-        const { content, changeDescription, author, resolvedComments } = req.body;
+        const { content, changeDescription, author, resolvedComments, baseVersion, session } = req.body;
 
         if (!content || typeof content !== 'string') {
           res.status(400).json({ error: "Missing or invalid 'content' field" });
           return;
         }
+        if (session !== undefined && !isAgentSession(session)) {
+          res.status(400).json({ error: "Invalid 'session' field: requires a non-empty 'sessionId'" });
+          return;
+        }
 
         const review = await this.reviewManager.getReview(req.params.id);
-        const previousStatus = review?.status;
-        const previousVersion = review?.currentVersion;
-        // 记录更新前未解决的评论 ID
-        const previousUnresolvedIds = review?.comments.filter(c => !c.resolved).map(c => c.id) || [];
-
         const updatedReview = await this.reviewManager.updatePlanContent(req.params.id, content, {
           changeDescription,
           author: author || 'human',
-          resolvedComments
+          resolvedComments,
+          baseVersion,
+          session
         });
 
-        // 触发版本更新事件
-        if (previousVersion !== updatedReview.currentVersion) {
-          const newVersion = updatedReview.documentVersions.find(v => v.versionHash === updatedReview.currentVersion);
-          if (newVersion) {
-            // 计算实际被 resolve 的评论（从未解决变为已解决）
-            const actuallyResolved = updatedReview.comments
-              .filter(c => c.resolved && previousUnresolvedIds.includes(c.id))
-              .map(c => ({ commentId: c.id, resolution: c.resolution || '已在修订版本中处理' }));
-
-            reviewEventBus.emitVersionUpdated(
-              req.params.id,
-              {
-                versionHash: newVersion.versionHash,
-                createdAt: newVersion.createdAt,
-                changeDescription: newVersion.changeDescription,
-                author: newVersion.author
-              },
-              newVersion.content,
-              actuallyResolved
-            );
-          }
-        }
+        reviewEventBus.emitPlanUpdated(req.params.id, review, updatedReview);
+
+        res.json(updatedReview);
+      } catch (e: any) {
+        const statusCode = e.message.includes('not found') ? 404 : e.message.includes('changed') ? 409 : 400;
+        res.status(statusCode).json({ error: e.message });
+      }
+    });
 
-        // 触发状态变更事件
-        if (previousStatus && previousStatus !== updatedReview.status) {
-          reviewEventBus.emitStatusChanged(req.params.id, updatedReview.status, previousStatus);
+    // Resolve Merge Conflicts (Agent 修订与人工修改冲突时)
+    this.app.post("/api/reviews/:id/merge", async (req: Request, res: Response) => {
+      try {
+        const { resolutions } = req.body || {};
+        if (!resolutions || typeof resolutions !== 'object' || Array.isArray(resolutions)
+          || !Object.values(resolutions).every(v => typeof v === 'string')) {
+          res.status(400).json({ error: "Missing or invalid 'resolutions' field: must map conflict IDs to content" });
+          return;
         }
 
+        const review = await this.reviewManager.getReview(req.params.id);
+        const updatedReview = await this.reviewManager.resolveMerge(req.params.id, resolutions);
+        reviewEventBus.emitPlanUpdated(req.params.id, review, updatedReview);
+
         res.json(updatedReview);
       } catch (e: any) {
-        const statusCode = e.message.includes('not found') ? 404 : 400;
+        const statusCode = e.message.includes('not found') ? 404 : e.message.includes('changed') ? 409 : 400;
         res.status(statusCode).json({ error: e.message });
       }
     });
@@ -289,11 +365,20 @@ export class HttpServer {
     // Get Diff between two versions
     this.app.get("/api/reviews/:id/diff", async (req: Request, res: Response) => {
       try {
-        const { from, to } = req.query;
+        const { from, to, context, mode } = req.query;
         if (!from || !to || typeof from !== 'string' || typeof to !== 'string') {
           res.status(400).json({ error: "Missing 'from' and 'to' query parameters" });
           return;
         }
+        if (mode !== undefined && mode !== 'line' && mode !== 'structure') {
+          res.status(400).json({ error: "'mode' must be 'line' or 'structure'" });
+          return;
+        }
+        const contextLines = typeof context === 'string' ? parseInt(context, 10) : undefined;
+        if (contextLines !== undefined && (isNaN(contextLines) || contextLines < 0)) {
+          res.status(400).json({ error: "'context' must be a non-negative integer" });
+          return;
+        }
 
         const review = await this.reviewManager.getReview(req.params.id);
         if (!review) {
@@ -301,7 +386,10 @@ export class HttpServer {
           return;
         }
 
-        const diff = this.reviewManager.computeDiff(review, from, to);
+        // structure: 按 Markdown 章节/块比较；line（默认）: 行级 diff
+        const diff = mode === 'structure'
+          ? this.reviewManager.computeStructureDiff(review, from, to)
+          : this.reviewManager.computeDiff(review, from, to, { context: contextLines });
         if (!diff) {
           res.status(404).json({ error: "One or both versions not found" });
           return;
@@ -329,6 +417,72 @@ export class HttpServer {
       }
     });
 
+    // Get Plan Sections with review status
+    this.app.get("/api/reviews/:id/sections", async (req: Request, res: Response) => {
+      try {
+        const review = await this.reviewManager.getReview(req.params.id);
+        if (!review) {
+          res.status(404).json({ error: "Review not found" });
+          return;
+        }
+        res.json({ sections: this.reviewManager.getPlanSections(review) });
+      } catch (e: any) {
+        res.status(500).json({ error: e.message });
+      }
+    });
+
+    // Set Section Review Status (status: null clears it)
+    this.app.put("/api/reviews/:id/sections", async (req: Request, res: Response) => {
+      try {
+        const { key, status } = req.body || {};
+        if (!key || typeof key !== 'string') {
+          res.status(400).json({ error: "Missing or invalid 'key' field" });
+          return;
+        }
+        if (status !== null && !SECTION_REVIEW_STATUSES.includes(status)) {
+          res.status(400).json({ error: `Invalid status: must be null or one of ${SECTION_REVIEW_STATUSES.join(', ')}` });
+          return;
+        }
+
+        const review = await this.reviewManager.setSectionStatus(req.params.id, key, status);
+        res.json({ sections: this.reviewManager.getPlanSections(review) });
+      } catch (e: any) {
+        const statusCode = e.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({ error: e.message });
+      }
+    });
+
+    // Get Review Decision (the hook's approve / block response)
+    this.app.get("/api/reviews/:id/decision", async (req: Request, res: Response) => {
+      try {
+        const review = await this.reviewManager.getReview(req.params.id);
+        if (!review) {
+          res.status(404).json({ error: "Review not found" });
+          return;
+        }
+        res.json(getReviewResult(review));
+      } catch (e: any) {
+        res.status(500).json({ error: e.message });
+      }
+    });
+
+    // Get Activity Timeline
+    this.app.get("/api/reviews/:id/activity", async (req: Request, res: Response) => {
+      try {
+        const review = await this.reviewManager.getReview(req.params.id);
+        if (!review) {
+          res.status(404).json({ error: "Review not found" });
+          return;
+        }
+        res.json({
+          status: review.status,
+          activity: review.activity
+        });
+      } catch (e: any) {
+        res.status(500).json({ error: e.message });
+      }
+    });
+
     // SSE Event Stream
     this.app.get("/api/reviews/:id/events", async (req: Request, res: Response) => {
       const review = await this.reviewManager.getReview(req.params.id);
@@ -348,10 +502,11 @@ export class HttpServer {
 
     // Submit Review (统一提交接口)
     // - passThrough=true: 直接批准，comments 作为建议传递给 Agent
-    // - passThrough=false/undefined: 根据是否有未解决 comments 决定行为
+    // - passThrough=false/undefined: 根据是否有未解决的 blocking comments 决定行为，
+    //   其余严重程度的 comments 不阻止批准，作为建议传递给 Agent
     this.app.post("/api/reviews/:id/submit", async (req: Request, res: Response) => {
       try {
-        const { note, passThrough } = req.body || {};
+        const { note, passThrough, reject, approvalMode, checkpointSteps } = req.body || {};
         const review = await this.reviewManager.getReview(req.params.id);
         if (!review) {
           res.status(404).json({ error: "Review not found" });
@@ -360,10 +515,42 @@ export class HttpServer {
 
         const previousStatus = review.status;
 
-        // 判断是否有反馈内容（note 或 comments）
+        // reject：拒绝整个计划，note 作为拒绝原因（不创建批注）
+        if (reject) {
+          const rejectedReview = await this.reviewManager.rejectReview(
+            req.params.id,
+            typeof note === 'string' ? note : undefined
+          );
+          reviewEventBus.emitStatusChanged(req.params.id, rejectedReview.status, previousStatus);
+          logger.info(`Review ${req.params.id} rejected`);
+          res.json({ status: "ok", reviewStatus: rejectedReview.status });
+          return;
+        }
+
+        // 批准后的执行方式（仅在批准时生效）
+        let approval: ApprovalSettings | undefined;
+        if (approvalMode !== undefined) {
+          if (!APPROVAL_MODES.includes(approvalMode)) {
+            res.status(400).json({ error: `Invalid approvalMode: must be one of ${APPROVAL_MODES.join(', ')}` });
+            return;
+          }
+          if (approvalMode === 'checkpoint' && (!Number.isInteger(checkpointSteps) || checkpointSteps < 1)) {
+            res.status(400).json({ error: "'checkpointSteps' must be a positive integer for checkpoint mode" });
+            return;
+          }
+          approval = approvalMode === 'checkpoint' ? { mode: approvalMode, checkpointSteps } : { mode: approvalMode };
+        }
+
+        // 判断是否有需要修改的反馈（note、blocking comments 或需要修改的章节）
         const hasNote = note && typeof note === 'string' && note.trim();
-        const hasUnresolvedComments = review.comments.some(c => !c.resolved);
-        const hasFeedback = hasNote || hasUnresolvedComments;
+        const hasFeedback = hasNote || hasBlockingComments(review) || sectionsRequestingChanges(review).length > 0;
+
+        // 批准前必须复核 Agent 已处理的评论（在添加 note 之前检查，避免留下孤立的批注）
+        const unverified = review.comments.filter(isAwaitingVerification).length;
+        if ((passThrough || !hasFeedback) && unverified > 0) {
+          res.status(400).json({ error: `Confirm or reopen ${unverified} addressed comment${unverified > 1 ? 's' : ''} before approving` });
+          return;
+        }
 
         // 如果有全局性意见 note，创建一个全局性批注
         if (hasNote) {
@@ -377,25 +564,22 @@ export class HttpServer {
 
         // passThrough 模式：直接批准，comments 作为建议传递
         if (passThrough) {
-          review.status = 'approved';
-          review.approvedDirectly = true;
-          review.passThrough = true;
-          await this.reviewManager._save(review);
+          const approvedReview = await this.reviewManager.approveReview(req.params.id, { passThrough: true, approval });
 
-          logger.info(`Review ${req.params.id} approved with passThrough mode (${review.comments.filter(c => !c.resolved).length} suggestions)`);
+          logger.info(`Review ${req.params.id} approved with passThrough mode (${approvedReview.comments.filter(c => !c.resolved).length} suggestions)`);
 
           // 触发状态变更事件（approved 时包含 planContent）
-          if (previousStatus !== review.status) {
-            reviewEventBus.emitStatusChanged(req.params.id, review.status, previousStatus, review.planContent);
+          if (previousStatus !== approvedReview.status) {
+            reviewEventBus.emitStatusChanged(req.params.id, approvedReview.status, previousStatus, approvedReview.planContent);
           }
 
-          res.json({ status: "ok", reviewStatus: review.status, passThrough: true });
+          res.json({ status: "ok", reviewStatus: approvedReview.status, passThrough: true });
           return;
         }
 
         // 非 passThrough 模式：根据是否有反馈决定
         if (hasFeedback) {
-          // 有反馈（note 或 comments）-> 请求修改
+          // 有阻塞性反馈（note 或 blocking comments）-> 请求修改
           const updatedReview = await this.reviewManager.submitFeedback(req.params.id);
 
           if (previousStatus && previousStatus !== updatedReview.status) {
@@ -405,17 +589,16 @@ export class HttpServer {
           logger.info(`Review ${req.params.id} submitted with changes requested`);
           res.json({ status: "ok", reviewStatus: updatedReview.status });
         } else {
-          // 无反馈 -> 直接批准
-          review.status = 'approved';
-          review.approvedDirectly = true;
-          await this.reviewManager._save(review);
+          // 无阻塞性反馈 -> 直接批准
+          const approvedReview = await this.reviewManager.approveReview(req.params.id, { approval });
 
-          if (previousStatus !== review.status) {
-            reviewEventBus.emitStatusChanged(req.params.id, review.status, previousStatus, review.planContent);
+          if (previousStatus !== approvedReview.status) {
+            reviewEventBus.emitStatusChanged(req.params.id, approvedReview.status, previousStatus, approvedReview.planContent);
           }
 
-          logger.info(`Review ${req.params.id} approved directly`);
-          res.json({ status: "ok", reviewStatus: review.status });
+          const suggestionCount = approvedReview.comments.filter(c => !c.resolved).length;
+          logger.info(`Review ${req.params.id} approved directly${suggestionCount > 0 ? ` (${suggestionCount} non-blocking comments)` : ''}`);
+          res.json({ status: "ok", reviewStatus: approvedReview.status });
         }
       } catch (e: any) {
         const statusCode = e.message.includes('not found') ? 404 : 400;
@@ -423,6 +606,27 @@ export class HttpServer {
       }
     });
 
+    // Reopen Approved Review (撤回批准，重新请求修改)
+    this.app.post("/api/reviews/:id/reopen", async (req: Request, res: Response) => {
+      try {
+        const { note } = req.body || {};
+        if (!note || typeof note !== 'string' || !note.trim()) {
+          res.status(400).json({ error: "Missing or invalid 'note' field" });
+          return;
+        }
+
+        const updatedReview = await this.reviewManager.reopenReview(req.params.id, note);
+        reviewEventBus.emitStatusChanged(req.params.id, updatedReview.status, 'approved');
+        reviewEventBus.emitApprovalRevoked(req.params.id, updatedReview.approvalRevoked!);
+
+        logger.info(`Review ${req.params.id} approval revoked`);
+        res.json({ status: "ok", reviewStatus: updatedReview.status });
+      } catch (e: any) {
+        const statusCode = e.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({ error: e.message });
+      }
+    });
+
     // Answer Question (用户回答)
     this.app.post("/api/reviews/:id/comments/:commentId/answer", async (req: Request, res: Response) => {
       try {
@@ -523,10 +727,17 @@ export class HttpServer {
     // ==================== MCP ====================
 
     // MCP Streamable HTTP Endpoint (仅在 HTTP 传输模式下启用)
+    // POST 发送请求；有状态会话通过 GET 接收资源更新通知，DELETE 结束会话
     if (this.options.enableMcpEndpoint) {
       this.app.post("/mcp", async (req: Request, res: Response) => {
         await this.mcpService.handleRequest(req, res);
       });
+      this.app.get("/mcp", async (req: Request, res: Response) => {
+        await this.mcpService.handleRequest(req, res);
+      });
+      this.app.delete("/mcp", async (req: Request, res: Response) => {
+        await this.mcpService.handleRequest(req, res);
+      });
     }
 
     // SPA Fallback
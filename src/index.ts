@@ -15,6 +15,7 @@
  */
 
 import { ReviewManager } from "./review-manager.js";
+import { createReviewStore } from "./review-store.js";
 import { HttpServer } from "./http-server.js";
 import { McpService } from "./mcp-server.js";
 import { logger } from "./logger.js";
@@ -41,8 +42,9 @@ async function main() {
     const { transport } = parseArgs();
     logger.info(`Starting Claude Reviewer Server in ${transport} mode...`);
 
-    // 1. Services Initialization
-    const reviewManager = new ReviewManager();
+    // 1. Services Initialization（存储后端由配置决定）
+    const reviewStore = await createReviewStore();
+    const reviewManager = new ReviewManager(reviewStore);
 
     // 2. MCP Service Initialization (port 将在 HTTP 启动后更新)
     let port = 3030;
@@ -79,6 +81,7 @@ async function main() {
         await mcpService.closeStdioTransport();
       }
       httpServer.stop();
+      await reviewStore.close();
       process.exit(0);
     };
 
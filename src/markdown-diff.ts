@@ -0,0 +1,276 @@
+/**
+ * Markdown 结构化 diff
+ * 将计划按标题切分为章节，章节内再切分为段落、列表项、代码块等块，
+ * 以标题路径匹配章节、以块为单位比较内容，得到"某章节被新增/删除/移动/改写"级别的差异
+ */
+
+import { diffSequences, diffLines } from './text-diff.js';
+import type {
+  MarkdownBlock,
+  MarkdownBlockType,
+  BlockDiff,
+  SectionDiff,
+  StructureDiffStats,
+  PlanSection
+} from './review-manager.js';
+
+interface MarkdownSection {
+  key: string;            // 标题路径拼接而成的匹配键（重名章节追加序号）
+  path: string[];         // 标题路径，如 ['实施计划', '回滚方案']
+  heading: string;
+  level: number;          // 标题级别，标题之前的内容为 0
+  line: number;           // 标题所在行号（从 1 开始），标题之前的内容为 0
+  blocks: MarkdownBlock[];
+}
+
+// 解析中的块
+interface PendingBlock {
+  type: MarkdownBlockType;
+  lines: string[];
+  lang?: string;
+}
+
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_RE = /^\s*(`{3,}|~{3,})\s*([^`\s]*)/;
+const LIST_ITEM_RE = /^\s*([-*+]|\d+[.)])\s+/;
+
+// 将 Markdown 解析为章节列表
+function parseSections(content: string): MarkdownSection[] {
+  const lines = content.split('\n');
+  const sections: MarkdownSection[] = [];
+  const headingStack: Array<{ level: number; text: string }> = [];
+  const keyCounts = new Map<string, number>();
+
+  let section: MarkdownSection = { key: '', path: [], heading: '', level: 0, line: 0, blocks: [] };
+  // 在闭包中赋值，显式断言避免被收窄为 null
+  let block = null as PendingBlock | null;
+  let fence: string | null = null;
+
+  const flushBlock = () => {
+    if (block) {
+      section.blocks.push({
+        type: block.type,
+        content: block.lines.join('\n').replace(/\s+$/, ''),
+        ...(block.lang && { lang: block.lang })
+      });
+      block = null;
+    }
+  };
+
+  const startBlock = (type: MarkdownBlockType, line: string, lang?: string) => {
+    flushBlock();
+    block = { type, lines: [line], lang };
+  };
+
+  for (const [index, line] of lines.entries()) {
+    // 代码块内部：原样收集直到闭合
+    if (fence) {
+      block!.lines.push(line);
+      if (line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, '') === '') {
+        fence = null;
+        flushBlock();
+      }
+      continue;
+    }
+
+    const fenceMatch = line.match(FENCE_RE);
+    if (fenceMatch) {
+      startBlock('code', line, fenceMatch[2] || undefined);
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const headingMatch = line.match(HEADING_RE);
+    if (headingMatch) {
+      flushBlock();
+      if (section.level > 0 || section.blocks.length > 0) {
+        sections.push(section);
+      }
+
+      const level = headingMatch[1].length;
+      const text = headingMatch[2];
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, text });
+
+      const path = headingStack.map(h => h.text);
+      let key = path.join(' > ');
+      const count = (keyCounts.get(key) ?? 0) + 1;
+      keyCounts.set(key, count);
+      if (count > 1) {
+        key += ` #${count}`;
+      }
+
+      section = { key, path, heading: text, level, line: index + 1, blocks: [] };
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushBlock();
+      continue;
+    }
+
+    if (LIST_ITEM_RE.test(line)) {
+      // 每个列表项（包括嵌套项）独立成块
+      startBlock('list-item', line);
+    } else if (line.trimStart().startsWith('|')) {
+      if (block?.type !== 'table') startBlock('table', line);
+      else block.lines.push(line);
+    } else if (line.trimStart().startsWith('>')) {
+      if (block?.type !== 'blockquote') startBlock('blockquote', line);
+      else block.lines.push(line);
+    } else if (block && block.type !== 'table') {
+      // 续行归入当前段落/列表项/引用
+      block.lines.push(line);
+    } else {
+      startBlock('paragraph', line);
+    }
+  }
+
+  flushBlock();
+  if (section.level > 0 || section.blocks.length > 0) {
+    sections.push(section);
+  }
+
+  return sections;
+}
+
+// 列出计划中的所有章节（不含第一个标题之前的内容），用于章节级审核
+export function listPlanSections(content: string): PlanSection[] {
+  return parseSections(content)
+    .filter(section => section.level > 0)
+    .map(({ key, path, heading, level, line }) => ({ key, path, heading, level, line }));
+}
+
+function blockKey(block: MarkdownBlock): string {
+  return `${block.type}\u0000${block.content}`;
+}
+
+// 比较章节内的块：内容相同的块按顺序匹配，其余同类型的删除/新增块配对为修改
+function diffBlocks(oldBlocks: MarkdownBlock[], newBlocks: MarkdownBlock[]): BlockDiff[] {
+  const ops = diffSequences(oldBlocks.map(blockKey), newBlocks.map(blockKey)) ?? [
+    ...oldBlocks.map((_, i) => ({ type: 'delete' as const, oldIndex: i })),
+    ...newBlocks.map((_, i) => ({ type: 'insert' as const, newIndex: i }))
+  ];
+
+  const result: BlockDiff[] = [];
+  let removed: MarkdownBlock[] = [];
+  let added: MarkdownBlock[] = [];
+
+  const flush = () => {
+    const unmatched = [...added];
+    for (const oldBlock of removed) {
+      const index = unmatched.findIndex(b => b.type === oldBlock.type);
+      if (index === -1) {
+        result.push({ status: 'removed', type: oldBlock.type, oldContent: oldBlock.content });
+        continue;
+      }
+      const [newBlock] = unmatched.splice(index, 1);
+      result.push({
+        status: 'modified',
+        type: oldBlock.type,
+        oldContent: oldBlock.content,
+        newContent: newBlock.content,
+        // 代码块（含 mermaid）作为整体比较，给出块内的行级差异
+        lines: diffLines(oldBlock.content, newBlock.content)
+      });
+    }
+    for (const newBlock of unmatched) {
+      result.push({ status: 'added', type: newBlock.type, newContent: newBlock.content });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      flush();
+      const block = newBlocks[op.newIndex];
+      result.push({ status: 'unchanged', type: block.type, oldContent: block.content, newContent: block.content });
+    } else if (op.type === 'delete') {
+      removed.push(oldBlocks[op.oldIndex]);
+    } else {
+      added.push(newBlocks[op.newIndex]);
+    }
+  }
+  flush();
+
+  return result;
+}
+
+/**
+ * 计算两个版本之间的章节级差异
+ * 章节按新版本顺序排列，被删除的章节出现在其原来的位置
+ */
+export function diffMarkdownStructure(
+  oldContent: string,
+  newContent: string
+): { sections: SectionDiff[]; stats: StructureDiffStats } {
+  const oldSections = parseSections(oldContent);
+  const newSections = parseSections(newContent);
+  const oldByKey = new Map(oldSections.map(s => [s.key, s]));
+  const newKeys = new Set(newSections.map(s => s.key));
+
+  // 以章节键做序列 diff：顺序一致的共同章节为原位匹配，其余共同章节视为移动
+  const ops = diffSequences(oldSections.map(s => s.key), newSections.map(s => s.key)) ?? [
+    ...oldSections.map((_, i) => ({ type: 'delete' as const, oldIndex: i })),
+    ...newSections.map((_, i) => ({ type: 'insert' as const, newIndex: i }))
+  ];
+
+  const sections: SectionDiff[] = [];
+  const stats: StructureDiffStats = { added: 0, removed: 0, modified: 0, moved: 0, unchanged: 0 };
+
+  const pushMatched = (oldSection: MarkdownSection, newSection: MarkdownSection, moved: boolean) => {
+    const blocks = diffBlocks(oldSection.blocks, newSection.blocks);
+    const modified = blocks.some(b => b.status !== 'unchanged');
+    sections.push({
+      status: modified ? 'modified' : 'unchanged',
+      moved,
+      path: newSection.path,
+      heading: newSection.heading,
+      level: newSection.level,
+      blocks
+    });
+    if (moved) stats.moved++;
+    if (modified) stats.modified++;
+    if (!moved && !modified) stats.unchanged++;
+  };
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      pushMatched(oldSections[op.oldIndex], newSections[op.newIndex], false);
+    } else if (op.type === 'delete') {
+      const oldSection = oldSections[op.oldIndex];
+      // 新版本中仍存在的章节会在新位置以 moved 输出
+      if (newKeys.has(oldSection.key)) continue;
+      sections.push({
+        status: 'removed',
+        moved: false,
+        path: oldSection.path,
+        heading: oldSection.heading,
+        level: oldSection.level,
+        blocks: oldSection.blocks.map(b => ({ status: 'removed', type: b.type, oldContent: b.content }))
+      });
+      stats.removed++;
+    } else {
+      const newSection = newSections[op.newIndex];
+      const oldSection = oldByKey.get(newSection.key);
+      if (oldSection) {
+        pushMatched(oldSection, newSection, true);
+        continue;
+      }
+      sections.push({
+        status: 'added',
+        moved: false,
+        path: newSection.path,
+        heading: newSection.heading,
+        level: newSection.level,
+        blocks: newSection.blocks.map(b => ({ status: 'added', type: b.type, newContent: b.content }))
+      });
+      stats.added++;
+    }
+  }
+
+  return { sections, stats };
+}
@@ -1,69 +1,117 @@
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema, isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-// import open from "open";  // 已禁用 request_human_review 工具
+import { randomUUID } from "crypto";
+import open from "open";
 import { ReviewManager, type Review } from "./review-manager.js";
 import { logger } from "./logger.js";
-import { reviewEventBus } from "./event-bus.js";
+import { reviewEventBus, type ReviewEvent } from "./event-bus.js";
+import { getReviewResult, isReviewDecided, formatRevisionRequest, formatReviewHistory, formatReviewerQuestions } from "./review-feedback.js";
+import { decodeProjectPath, encodeProjectPath, isLegacyEncoded, legacyEncodeProjectPath } from "./project-path.js";
 import type { Request, Response } from "express";
 
+const HTTP_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // HTTP 会话空闲 30 分钟后关闭
+
+// 一个 MCP 连接（stdio 或有状态的 Streamable HTTP 会话）及其资源订阅
+interface McpConnection {
+  server: McpServer;
+  subscriptions: Set<string>;
+}
+
+// 有状态的 HTTP 会话：没有进行中的请求（包括 GET 通知流）时开始计时，空闲超时后关闭
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  activeRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
 export class McpService {
-  private server: McpServer;
   private reviewManager: ReviewManager;
   private getBaseUrl: () => string;
   private stdioTransport?: StdioServerTransport;
+  private connections = new Set<McpConnection>();                         // 可接收通知的连接
+  private httpSessions = new Map<string, HttpSession>();                  // sessionId -> 会话
 
   constructor(reviewManager: ReviewManager, getBaseUrl: () => string) {
     this.reviewManager = reviewManager;
     this.getBaseUrl = getBaseUrl;
-    this.server = new McpServer({
+
+    // review 变更时向订阅了相关资源的连接发送通知
+    reviewEventBus.subscribeToAllReviews(event => {
+      this.notifyResourceUpdates(event).catch(e => {
+        logger.warn(`Failed to send MCP resource notifications: ${(e as Error).message}`);
+      });
+    });
+  }
+
+  // 每个连接使用独立的 McpServer（一个 McpServer 同时只能连接一个传输）
+  private createConnection(): McpConnection {
+    const server = new McpServer({
       name: "gui-reviewer",
       version: "2.0.0",
     });
-    this.setupTools();
-    this.setupResources();
+    const connection: McpConnection = { server, subscriptions: new Set() };
+    this.setupTools(server);
+    this.setupResources(server);
+    this.setupPrompts(server);
+    this.setupSubscriptions(connection);
+    return connection;
   }
 
-  private setupTools() {
-    // Tool 1: Request Review (Async) - 已禁用，通过 ExitPlanMode hook 自动触发
-    /*
-    this.server.tool(
-      "request_human_review",
-      `手动请求人工审核计划。
-
-注意：如果你在 Plan 模式下使用 ExitPlanMode，审核界面会自动打开，无需调用此工具。
-此工具用于非 Plan 模式下的手动审核请求。`,
-      {
-        plan: z.string().describe("需要审核的计划内容（Markdown 格式）"),
-        projectPath: z.string().optional().describe("项目路径，用于隔离不同项目的审核记录")
-      },
-      async ({ plan, projectPath }) => {
-        logger.info("Tool called: request_human_review");
-        const review = await this.reviewManager.createReview(plan, projectPath);
-        const url = `${this.getBaseUrl()}/review/${review.id}`;
-
-        logger.info(`Opening browser at ${url}`);
-        // Open Browser
-        try {
-          await open(url);
-        } catch (e) {
-          logger.error(`Failed to open browser: ${(e as Error).message}`);
-        }
+  private setupTools(server: McpServer) {
+    // Tool 1: Request Review (非阻塞，Plan Mode 之外提交任意 Markdown 文档审核)
+    server.tool(
+        "request_human_review",
+        `Submit any Markdown artifact (design note, migration script outline, commit plan, ...) for human review outside Plan Mode.
+Opens the review UI in the browser and returns the review ID immediately, so you can keep working.
 
-        return {
-          content: [{ type: "text", text: `审核界面已打开: ${url}
+Check back later with get_review_result, or call wait_for_review to block until the reviewer decides.
+In Plan Mode you do not need this tool: calling ExitPlanMode opens the review automatically.`,
+        {
+            content: z.string().describe("The Markdown document to review."),
+            projectPath: z.string().optional().describe("Absolute project path, used to group reviews by project.")
+        },
+        async ({ content, projectPath }) => {
+            logger.info(`Tool called: request_human_review (project: ${projectPath || 'global'})`);
 
-Review ID: ${review.id}
+            try {
+                const review = await this.reviewManager.createReview(content, projectPath, { source: 'mcp_tool' });
+                reviewEventBus.emitReviewCreated(review.id, review.projectPath);
+                const url = `${this.getBaseUrl()}/review/${review.id}`;
+
+                // 自动打开浏览器
+                try {
+                    await open(url);
+                    logger.info(`Opened browser at ${url}`);
+                } catch (e) {
+                    logger.warn(`Failed to open browser: ${(e as Error).message}`);
+                }
 
-请在浏览器中完成审核，完成后在终端输入 'continue'，然后调用 get_review_result 获取结果。` }]
-        };
-      }
+                return {
+                    content: [{ type: "text", text: JSON.stringify({
+                        success: true,
+                        reviewId: review.id,
+                        status: review.status,
+                        url,
+                        message: 'Review requested. Continue working and call get_review_result later, or call wait_for_review to block until the reviewer decides.'
+                    }) }]
+                };
+            } catch (e: any) {
+                logger.error(`request_human_review failed: ${e.message}`);
+                return {
+                    content: [{ type: "text", text: JSON.stringify({
+                        success: false,
+                        error: e.message
+                    }) }]
+                };
+            }
+        }
     );
-    */
 
     // Tool 2: Ask Questions (阻塞等待用户回答)
-    this.server.tool(
+    server.tool(
         "ask_questions",
         `Ask questions or acknowledge comments from user feedback.
 MUST cover ALL unresolved comments - each comment needs a question entry.
@@ -106,14 +154,18 @@ This tool will BLOCK until user submits their answers (timeout: 10 minutes).`,
                 }
 
                 // 发送 questions 更新事件
-                const questionsData = questions.map(q => ({
-                    commentId: q.commentId,
-                    question: {
-                        type: q.type,
-                        message: q.message,
-                        options: q.options
-                    }
-                }));
+                const questionsData = questions.map(q => {
+                    const thread = review.comments.find(c => c.id === q.commentId)?.thread;
+                    return {
+                        commentId: q.commentId,
+                        question: {
+                            type: q.type,
+                            message: q.message,
+                            options: q.options
+                        },
+                        message: thread?.[thread.length - 1]
+                    };
+                });
                 reviewEventBus.emitQuestionsUpdated(reviewId, questionsData);
 
                 logger.info(`ask_questions: ${acceptedCount} accepted, ${pendingCount} pending for review ${reviewId}`);
@@ -194,63 +246,180 @@ This tool will BLOCK until user submits their answers (timeout: 10 minutes).`,
         }
     );
 
-    // Tool 4: Update Plan - 已禁用，修订版本通过 ExitPlanMode + REVIEW_ID 标记提交
-    /*
-    this.server.tool(
-        "update_plan",
-        `更新计划内容。创建新版本，用户浏览器会自动刷新显示更新后的计划。
-
-在收到用户反馈后调用此工具更新计划，然后再次调用 ExitPlanMode 提交新版本供用户审核。`,
+    // Tool 3: Get Review Result (非阻塞查询审核结果，与 ExitPlanMode hook 返回的内容一致)
+    server.tool(
+        "get_review_result",
+        `Get the reviewer's decision for a plan review without blocking.
+Returns the same approve/block payload the ExitPlanMode hook would have produced.
+Use it after the hook timed out, or to check a review from outside Plan Mode.
+If the review is not decided yet, call wait_for_review to block until it is.`,
         {
-            reviewId: z.string().describe("Review ID"),
-            newContent: z.string().describe("更新后的计划内容（Markdown 格式）"),
-            changeDescription: z.string().optional().describe("变更描述，简要说明修改了什么"),
-            resolvedComments: z.array(z.object({
-                commentId: z.string().describe("已解决的评论 ID"),
-                resolution: z.string().describe("解决说明，说明如何处理了这个评论")
-            })).optional().describe("本次更新解决的评论列表")
+            reviewId: z.string().describe("The ID of the review.")
         },
-        async ({ reviewId, newContent, changeDescription, resolvedComments }) => {
-            logger.info(`Tool called: update_plan (reviewId: ${reviewId})`);
+        async ({ reviewId }) => {
+            logger.info(`Tool called: get_review_result (reviewId: ${reviewId})`);
 
-            const review = await this.reviewManager.getReview(reviewId);
-            if (!review) {
-                logger.warn(`update_plan: Review ${reviewId} not found`);
+            try {
+                const review = await this.reviewManager.getReview(reviewId);
+                if (!review) {
+                    throw new Error(`Review not found: ${reviewId}`);
+                }
+
+                if (!isReviewDecided(review.status)) {
+                    return {
+                        content: [{ type: "text", text: JSON.stringify({
+                            success: true,
+                            reviewId,
+                            status: review.status,
+                            decided: false,
+                            message: 'The reviewer has not decided yet. Call wait_for_review to block until they do.'
+                        }) }]
+                    };
+                }
+
+                return {
+                    content: [{ type: "text", text: JSON.stringify(this.formatReviewResult(review)) }]
+                };
+            } catch (e: any) {
+                logger.error(`get_review_result failed: ${e.message}`);
                 return {
                     content: [{ type: "text", text: JSON.stringify({
                         success: false,
-                        error: `Review ${reviewId} not found.`
+                        error: e.message
                     }) }]
                 };
             }
+        }
+    );
+
+    // Tool 3 (阻塞版本): Wait For Review，超时可配置
+    server.tool(
+        "wait_for_review",
+        `Wait until the reviewer decides on a plan review, then return the same approve/block payload as get_review_result.
+
+This tool will BLOCK until the reviewer approves, rejects or requests changes, or the timeout expires (default: 570 seconds).
+On timeout, call it again to keep waiting.`,
+        {
+            reviewId: z.string().describe("The ID of the review."),
+            timeoutSeconds: z.number().int().min(1).max(3600).optional().describe("Maximum time to wait in seconds (default: 570).")
+        },
+        async ({ reviewId, timeoutSeconds }) => {
+            logger.info(`Tool called: wait_for_review (reviewId: ${reviewId}, timeout: ${timeoutSeconds ?? 'default'})`);
+
+            const WAIT_TIMEOUT = (timeoutSeconds ?? 570) * 1000;
+            const POLL_INTERVAL = 2000; // 2 秒轮询
 
             try {
-                const updatedReview = await this.reviewManager.updatePlanContent(
-                    reviewId,
-                    newContent,
-                    {
-                        changeDescription,
-                        author: 'agent',
-                        resolvedComments
+                const startTime = Date.now();
+
+                // 轮询存储而非订阅事件总线，审核可能由另一个进程中的服务器完成
+                while (true) {
+                    const review = await this.reviewManager.getReview(reviewId);
+                    if (!review) {
+                        throw new Error(`Review not found: ${reviewId}`);
+                    }
+
+                    if (isReviewDecided(review.status)) {
+                        logger.info(`wait_for_review: Review ${reviewId} decided with status ${review.status}`);
+                        return {
+                            content: [{ type: "text", text: JSON.stringify(this.formatReviewResult(review)) }]
+                        };
+                    }
+
+                    if (Date.now() - startTime >= WAIT_TIMEOUT) {
+                        logger.warn(`wait_for_review: Timeout waiting for review ${reviewId}`);
+                        return {
+                            content: [{ type: "text", text: JSON.stringify({
+                                success: false,
+                                reviewId,
+                                status: review.status,
+                                decided: false,
+                                error: `Timeout waiting for the reviewer (${Math.round(WAIT_TIMEOUT / 1000)} seconds).`,
+                                message: 'Call wait_for_review again to keep waiting, or ask the user to finish the review in the browser.'
+                            }) }]
+                        };
                     }
-                );
 
-                const versionCount = updatedReview.documentVersions.length;
-                const newVersionHash = updatedReview.currentVersion.substring(0, 8);
-                const resolvedCount = resolvedComments?.length || 0;
+                    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+                }
+            } catch (e: any) {
+                logger.error(`wait_for_review failed: ${e.message}`);
+                return {
+                    content: [{ type: "text", text: JSON.stringify({
+                        success: false,
+                        error: e.message
+                    }) }]
+                };
+            }
+        }
+    );
+
+    // Tool 4: Update Plan (提交修订版本，附变更摘要和每条评论的处理说明；审核仍由 ExitPlanMode 等待)
+    server.tool(
+        "update_plan",
+        `Submit a revised version of a plan or document after the reviewer requested changes.
+Provide the full new content, a short summary of what changed, and a resolution note for each comment you addressed (comment IDs are listed in the feedback).
+The reviewer sees each resolution note next to its comment and can confirm or reopen it.
+
+This tool does NOT wait for approval. Afterwards:
+- Plan Mode: call ExitPlanMode again; it waits for the reviewer as usual. Calls from the same session are linked to the review automatically (from another session, put <!-- REVIEW_ID: <reviewId> --> at the top of the plan).
+- Otherwise (request_human_review): call wait_for_review or get_review_result.`,
+        {
+            reviewId: z.string().describe("The ID of the review."),
+            newContent: z.string().describe("The full revised content (Markdown)."),
+            changeDescription: z.string().describe("Short summary of what changed in this revision."),
+            resolvedComments: z.array(z.object({
+                commentId: z.string().describe("The ID of the comment addressed by this revision."),
+                resolution: z.string().describe("How the comment was addressed.")
+            })).optional().describe("Resolution notes for the comments addressed by this revision.")
+        },
+        async ({ reviewId, newContent, changeDescription, resolvedComments }) => {
+            logger.info(`Tool called: update_plan (reviewId: ${reviewId}, ${resolvedComments?.length ?? 0} resolutions)`);
+
+            try {
+                const review = await this.reviewManager.getReview(reviewId);
+                if (!review) {
+                    throw new Error(`Review not found: ${reviewId}`);
+                }
+
+                // 只接受当前仍未解决的评论，避免处理说明被静默丢弃
+                const unresolvedIds = new Set(review.comments.filter(c => !c.resolved).map(c => c.id));
+                const unknownIds = (resolvedComments ?? []).map(rc => rc.commentId).filter(id => !unresolvedIds.has(id));
+                if (unknownIds.length > 0) {
+                    throw new Error(`Unknown or already resolved comment IDs: ${unknownIds.join(', ')}`);
+                }
+
+                // 与 ExitPlanMode hook 一致，REVIEW_ID 标记不存入计划内容
+                const content = newContent.replace(/<!--\s*REVIEW_ID:\s*[a-f0-9-]+\s*-->\n?/gi, '');
+                const updatedReview = await this.reviewManager.updatePlanContent(reviewId, content, {
+                    changeDescription,
+                    author: 'agent',
+                    resolvedComments
+                });
+
+                // 通知前端刷新（新版本、合并冲突、状态变更）
+                reviewEventBus.emitPlanUpdated(reviewId, review, updatedReview);
 
-                logger.info(`update_plan: Created version ${newVersionHash} for review ${reviewId}, resolved ${resolvedCount} comments`);
+                const notedIds = new Set((resolvedComments ?? []).map(rc => rc.commentId));
+                const withoutNote = [...unresolvedIds].filter(id => !notedIds.has(id));
+
+                logger.info(`update_plan: Review ${reviewId} now at version ${updatedReview.currentVersion.substring(0, 8)}, status ${updatedReview.status}`);
+
+                const nextStep = updatedReview.source === 'mcp_tool'
+                    ? 'Call wait_for_review to wait for the reviewer.'
+                    : 'Call ExitPlanMode again with the same plan to wait for the reviewer.';
 
                 return {
                     content: [{ type: "text", text: JSON.stringify({
                         success: true,
                         reviewId,
                         status: updatedReview.status,
-                        newVersion: newVersionHash,
-                        totalVersions: versionCount,
-                        resolvedCommentsCount: resolvedCount,
-                        changeDescription: changeDescription || 'No description',
-                        message: "Plan updated successfully. User's browser will refresh to show the new version."
+                        newVersion: updatedReview.currentVersion.substring(0, 8),
+                        totalVersions: updatedReview.documentVersions.length,
+                        resolvedCommentsCount: notedIds.size,
+                        commentsWithoutNote: withoutNote,
+                        mergeConflicts: updatedReview.pendingMerge ? updatedReview.pendingMerge.segments.filter(s => s.type === 'conflict').length : 0,
+                        message: `Revision submitted. ${nextStep}`
                     }) }]
                 };
             } catch (e: any) {
@@ -264,7 +433,16 @@ This tool will BLOCK until user submits their answers (timeout: 10 minutes).`,
             }
         }
     );
-    */
+  }
+
+  // 已决定的审核结果；批准时提示 Agent 如何让 ExitPlanMode 直接通过
+  // 留在 Plan Mode 的批准需要进入新一轮审核，不提示直接通过
+  private formatReviewResult(review: Review) {
+    const result = getReviewResult(review);
+    const hint = result.decision === 'approve' && review.source !== 'mcp_tool' && review.approval?.mode !== 'plan'
+      ? `If you are still in Plan Mode, call ExitPlanMode again with <!-- REVIEW_ID: ${review.id} --> at the top of the plan and the approved plan unchanged; the hook will pass it through without another review. A changed plan goes through review again.`
+      : undefined;
+    return { success: true, ...result, ...(hint && { message: hint }) };
   }
 
   /**
@@ -274,35 +452,49 @@ This tool will BLOCK until user submits their answers (timeout: 10 minutes).`,
    * URI 格式：
    * - review://project/{encodedProjectPath}/pending - 获取指定项目的 pending reviews
    * - review://project/{encodedProjectPath}/current - 获取指定项目的 current review
+   * - review://{id}/approval - 获取批准状态（执行期间检查批准是否被撤回）
    * - review://{id} - 获取指定 ID 的 review 详情
    *
-   * projectPath 编码规则：将路径中的 / 替换为 _，移除开头的 /
-   * 例如：/Users/foo/project -> Users_foo_project
+   * projectPath 编码规则：encodeURIComponent
+   * 例如：/Users/foo/project -> %2FUsers%2Ffoo%2Fproject
+   * 旧格式（Users_foo_project）仍可访问，按已有项目匹配还原
+   *
+   * resources/list 列出各项目的 pending / current 资源及所有 pending review；
+   * 订阅（resources/subscribe）后，review 变更时发送 notifications/resources/updated
    */
-  private setupResources() {
-    // 编码项目路径（与 review-manager 中的 encodeProjectPath 保持一致）
-    const encodeProjectPath = (path: string): string => {
-      return path
-        .replace(/^\//, '')      // 移除开头的 /
-        .replace(/\//g, '_')     // 替换 / 为 _
-        .replace(/:/g, '_');     // 替换 : 为 _ (Windows 盘符)
+  private setupResources(server: McpServer) {
+    // 解码项目路径，兼容旧版 _ 编码的 URI
+    const resolveProjectPath = async (encoded: string): Promise<string> => {
+      if (!isLegacyEncoded(encoded)) {
+        return decodeProjectPath(encoded) ?? encoded;
+      }
+      const projects = await this.reviewManager.getProjects();
+      return projects.find(p => legacyEncodeProjectPath(p) === encoded)
+        ?? '/' + encoded.replace(/_/g, '/');
     };
 
-    // 解码项目路径
-    const decodeProjectPath = (encoded: string): string => {
-      return '/' + encoded.replace(/_/g, '/');
+    // 列出有 review 记录的项目（resources/list）
+    const listProjects = (suffix: 'pending' | 'current', label: string) => async () => {
+      const projects = await this.reviewManager.getProjects();
+      return {
+        resources: projects.map(p => ({
+          uri: `review://project/${encodeProjectPath(p)}/${suffix}`,
+          name: `${label}: ${p}`,
+          mimeType: 'application/json'
+        }))
+      };
     };
 
     // Resource 1: 获取指定项目的所有 pending reviews（摘要列表）
-    this.server.resource(
+    server.resource(
       'pending-reviews',
-      new ResourceTemplate('review://project/{projectPath}/pending', { list: undefined }),
+      new ResourceTemplate('review://project/{projectPath}/pending', { list: listProjects('pending', 'Pending reviews') }),
       {
-        description: 'All pending reviews for a specific project. projectPath is URL-encoded (/ replaced with _)',
+        description: 'All pending reviews for a specific project. projectPath is URL-encoded (encodeURIComponent)',
         mimeType: 'application/json'
       },
       async (uri, { projectPath }) => {
-        const decodedPath = decodeProjectPath(projectPath as string);
+        const decodedPath = await resolveProjectPath(projectPath as string);
         logger.info(`Resource accessed: review://project/${projectPath}/pending (decoded: ${decodedPath})`);
         const reviews = await this.reviewManager.getPendingReviews(decodedPath);
 
@@ -327,15 +519,15 @@ This tool will BLOCK until user submits their answers (timeout: 10 minutes).`,
     );
 
     // Resource 2: 获取指定项目的当前/最近 pending review（完整内容）
-    this.server.resource(
+    server.resource(
       'current-review',
-      new ResourceTemplate('review://project/{projectPath}/current', { list: undefined }),
+      new ResourceTemplate('review://project/{projectPath}/current', { list: listProjects('current', 'Current review') }),
       {
-        description: 'The most recent pending review for a specific project. projectPath is URL-encoded (/ replaced with _)',
+        description: 'The most recent pending review for a specific project. projectPath is URL-encoded (encodeURIComponent)',
         mimeType: 'application/json'
       },
       async (uri, { projectPath }) => {
-        const decodedPath = decodeProjectPath(projectPath as string);
+        const decodedPath = await resolveProjectPath(projectPath as string);
         logger.info(`Resource accessed: review://project/${projectPath}/current (decoded: ${decodedPath})`);
         const reviews = await this.reviewManager.getPendingReviews(decodedPath);
         const current = reviews[0]; // 已按时间倒序排列
@@ -368,10 +560,71 @@ This tool will BLOCK until user submits their answers (timeout: 10 minutes).`,
       }
     );
 
-    // Resource 3: 动态获取指定 ID 的 review 详情
-    this.server.resource(
+    // Resource 3: 批准状态，审核者可能在 Agent 执行期间撤回批准
+    server.resource(
+      'review-approval',
+      // 批准状态按需读取（已知 review ID），不在列表中重复列出
+      new ResourceTemplate('review://{id}/approval', { list: undefined }),
+      {
+        description: 'Approval state of a review. Check it while executing an approved plan: the reviewer may revoke the approval and request changes',
+        mimeType: 'application/json'
+      },
+      async (uri, { id }) => {
+        const reviewId = id as string;
+        logger.info(`Resource accessed: review://${reviewId}/approval`);
+        const review = await this.reviewManager.getReview(reviewId);
+
+        if (!review) {
+          return {
+            contents: [{
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify({ error: `Review ${reviewId} not found` })
+            }]
+          };
+        }
+
+        const revoked = review.status !== 'approved' && review.approvalRevoked;
+        let message: string | undefined;
+        if (review.status === 'rejected') {
+          message = `审核者拒绝了该计划${review.rejectionReason ? `：${review.rejectionReason}` : ''}。请停止执行并放弃该计划，等待用户的新指示。`;
+        } else if (revoked) {
+          message = `审核者撤回了批准：${revoked.note}。请停止执行，根据该意见修改计划后再次调用 ExitPlanMode 提交（计划开头添加 <!-- REVIEW_ID: ${review.id} -->）。`;
+        }
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify({
+              id: review.id,
+              status: review.status,
+              approved: review.status === 'approved',
+              approval: review.status === 'approved' ? (review.approval ?? { mode: 'auto_accept' }) : undefined,
+              rejected: review.status === 'rejected',
+              revoked: revoked || undefined,
+              message
+            }, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Resource 4: 动态获取指定 ID 的 review 详情
+    server.resource(
       'review-detail',
-      new ResourceTemplate('review://{id}', { list: undefined }),
+      new ResourceTemplate('review://{id}', {
+        list: async () => {
+          const reviews = await this.reviewManager.getPendingReviews();
+          return {
+            resources: reviews.map(r => ({
+              uri: `review://${r.id}`,
+              name: `Review ${r.id.substring(0, 8)} (${r.status})`,
+              description: r.projectPath ? `Pending review in ${r.projectPath}` : 'Pending review',
+              mimeType: 'application/json'
+            }))
+          };
+        }
+      }),
       {
         description: 'Detailed information for a specific review by ID',
         mimeType: 'application/json'
@@ -401,21 +654,205 @@ This tool will BLOCK until user submits their answers (timeout: 10 minutes).`,
       }
     );
 
-    logger.info('MCP Resources registered: review://project/{projectPath}/pending, review://project/{projectPath}/current, review://{id}');
+    logger.info('MCP Resources registered: review://project/{projectPath}/pending, review://project/{projectPath}/current, review://{id}/approval, review://{id}');
   }
 
+  /**
+   * 设置 MCP Prompts
+   * 常用的审核响应流程，可从客户端的斜杠命令菜单调用：
+   * - revise-plan-from-feedback - 根据未解决的评论修订计划
+   * - summarize-review-history - 总结审核历史
+   * - answer-reviewer-questions - 回答审核者的提问
+   *
+   * 参数为 reviewId 或 projectPath（取该项目最近的 pending review），都不提供时取最近的 pending review
+   */
+  private setupPrompts(server: McpServer) {
+    const reviewArgs = {
+      reviewId: z.string().optional().describe("The ID of the review."),
+      projectPath: z.string().optional().describe("Absolute project path; uses the project's most recent pending review.")
+    };
+
+    // 按参数查找 prompt 针对的 review
+    const resolveReview = async (reviewId?: string, projectPath?: string): Promise<Review> => {
+      if (reviewId) {
+        const review = await this.reviewManager.getReview(reviewId);
+        if (!review) {
+          throw new Error(`Review not found: ${reviewId}`);
+        }
+        return review;
+      }
+      const [latest] = await this.reviewManager.getPendingReviews(projectPath);
+      if (!latest) {
+        throw new Error(projectPath ? `No pending review for project: ${projectPath}` : 'No pending review');
+      }
+      return latest;
+    };
+
+    const userMessage = (text: string) => ({
+      messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }]
+    });
+
+    // Prompt 1: 根据审核反馈修订计划
+    server.prompt(
+      'revise-plan-from-feedback',
+      'Revise the plan from the reviewer\'s unresolved comments and section marks, then submit the revision with update_plan',
+      reviewArgs,
+      async ({ reviewId, projectPath }) => {
+        const review = await resolveReview(reviewId, projectPath);
+        logger.info(`Prompt requested: revise-plan-from-feedback (reviewId: ${review.id})`);
+        return {
+          description: `Revise review ${review.id} from feedback`,
+          ...userMessage(formatRevisionRequest(review))
+        };
+      }
+    );
+
+    // Prompt 2: 总结审核历史
+    server.prompt(
+      'summarize-review-history',
+      'Summarize how a review evolved: status changes, versions, comments and how they were resolved',
+      reviewArgs,
+      async ({ reviewId, projectPath }) => {
+        const review = await resolveReview(reviewId, projectPath);
+        logger.info(`Prompt requested: summarize-review-history (reviewId: ${review.id})`);
+        return {
+          description: `Summarize the history of review ${review.id}`,
+          ...userMessage(`请根据以下审核记录简要总结这次审核：审核者关注的主要问题、各版本修改了什么、哪些评论已解决，以及仍待处理的事项。
+
+${formatReviewHistory(review)}`)
+        };
+      }
+    );
+
+    // Prompt 3: 回答审核者的提问
+    server.prompt(
+      'answer-reviewer-questions',
+      'Answer the reviewer\'s open questions on a review through ask_questions',
+      reviewArgs,
+      async ({ reviewId, projectPath }) => {
+        const review = await resolveReview(reviewId, projectPath);
+        logger.info(`Prompt requested: answer-reviewer-questions (reviewId: ${review.id})`);
+        const questions = formatReviewerQuestions(review);
+        const text = questions
+          ? `审核者在 Review ${review.id} 中提出了以下问题：
+
+${questions}
+
+请结合计划内容逐条回答。调用 ask_questions 工具（reviewId: ${review.id}）提交回答：能直接回答的问题使用 accepted 类型，message 填写回答内容；需要审核者补充信息时使用 clarification 类型。ask_questions 需要覆盖所有未解决的评论。
+
+**当前${review.source === 'mcp_tool' ? '文档' : '计划'}内容**：
+
+${review.planContent}`
+          : `Review ${review.id} 中没有待回答的审核者提问。`;
+        return {
+          description: `Answer reviewer questions on review ${review.id}`,
+          ...userMessage(text)
+        };
+      }
+    );
+
+    logger.info('MCP Prompts registered: revise-plan-from-feedback, summarize-review-history, answer-reviewer-questions');
+  }
+
+  // 资源订阅：只记录 URI，通知由 notifyResourceUpdates 按 review 事件发送
+  private setupSubscriptions(connection: McpConnection) {
+    const { server, subscriptions } = connection;
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri);
+      logger.info(`Resource subscribed: ${request.params.uri}`);
+      return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      logger.info(`Resource unsubscribed: ${request.params.uri}`);
+      return {};
+    });
+  }
+
+  // review 变更时通知订阅了相关资源的连接；新建或完成 review 时资源列表也随之变化
+  private async notifyResourceUpdates(event: ReviewEvent) {
+    if (this.connections.size === 0) return;
+
+    const review = await this.reviewManager.getReview(event.reviewId);
+    const uris = [`review://${event.reviewId}`, `review://${event.reviewId}/approval`];
+    if (review?.projectPath) {
+      const encoded = encodeProjectPath(review.projectPath);
+      uris.push(`review://project/${encoded}/pending`, `review://project/${encoded}/current`);
+    }
+    const listChanged = event.type === 'review_created' || event.type === 'status_changed';
+
+    for (const connection of this.connections) {
+      if (listChanged) {
+        connection.server.sendResourceListChanged();
+      }
+      for (const uri of uris) {
+        if (connection.subscriptions.has(uri)) {
+          await connection.server.server.sendResourceUpdated({ uri });
+        }
+      }
+    }
+  }
+
+  /**
+   * 处理 /mcp 请求（Streamable HTTP）
+   * - initialize 请求创建有状态会话（返回 mcp-session-id），会话内可订阅资源并通过 GET 流接收通知
+   * - 带 mcp-session-id 的请求交给对应会话；DELETE 结束会话
+   * - 其余不带会话的请求按无状态模式处理
+   */
   async handleRequest(req: Request, res: Response) {
     try {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+      if (sessionId) {
+        const session = this.httpSessions.get(sessionId);
+        if (!session) {
+          res.status(404).json({
+            jsonrpc: '2.0',
+            error: { code: -32001, message: 'Session not found' },
+            id: null
+          });
+          return;
+        }
+        this.trackSessionRequest(session, res);
+        await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (req.method !== 'POST') {
+        res.status(400).json({
+          jsonrpc: '2.0',
+          error: { code: -32000, message: 'Bad Request: Mcp-Session-Id header is required' },
+          id: null
+        });
+        return;
+      }
+
+      if (isInitializeRequest(req.body)) {
+        const transport = await this.createSessionTransport();
+        await transport.handleRequest(req, res, req.body);
+        // 初始化失败时没有建立会话，释放传输和 McpServer
+        if (!transport.sessionId || !this.httpSessions.has(transport.sessionId)) {
+          await transport.close();
+        }
+        return;
+      }
+
+      // 无状态模式：每个请求使用独立的 McpServer
+      const { server } = this.createConnection();
       const transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: undefined,  // 无状态模式
+        sessionIdGenerator: undefined,
         enableJsonResponse: true
       });
 
       res.on('close', () => {
         transport.close();
+        server.close();
       });
 
-      await this.server.connect(transport);
+      await server.connect(transport);
       await transport.handleRequest(req, res, req.body);
     } catch (error) {
       logger.error(`MCP request error: ${(error as Error).message}`);
@@ -429,13 +866,74 @@ This tool will BLOCK until user submits their answers (timeout: 10 minutes).`,
     }
   }
 
+  // 创建有状态的 HTTP 会话：初始化成功后才注册连接，会话关闭或空闲超时时移除
+  private async createSessionTransport(): Promise<StreamableHTTPServerTransport> {
+    const connection = this.createConnection();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableJsonResponse: true,
+      onsessioninitialized: (sessionId) => {
+        const session: HttpSession = { transport, activeRequests: 0 };
+        this.httpSessions.set(sessionId, session);
+        this.connections.add(connection);
+        this.scheduleSessionExpiry(sessionId, session);
+        logger.info(`MCP HTTP session started: ${sessionId}`);
+      }
+    });
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      const session = sessionId ? this.httpSessions.get(sessionId) : undefined;
+      if (sessionId && session?.transport === transport) {
+        clearTimeout(session.idleTimer);
+        this.httpSessions.delete(sessionId);
+        logger.info(`MCP HTTP session closed: ${sessionId}`);
+      }
+      this.connections.delete(connection);
+    };
+
+    await connection.server.connect(transport);
+    return transport;
+  }
+
+  // 会话内的请求进行中时暂停空闲计时，请求结束后重新开始
+  private trackSessionRequest(session: HttpSession, res: Response): void {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = undefined;
+    session.activeRequests++;
+    res.on('close', () => {
+      session.activeRequests--;
+      const sessionId = session.transport.sessionId;
+      if (sessionId && this.httpSessions.get(sessionId) === session) {
+        this.scheduleSessionExpiry(sessionId, session);
+      }
+    });
+  }
+
+  private scheduleSessionExpiry(sessionId: string, session: HttpSession): void {
+    if (session.activeRequests > 0) return;
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      logger.info(`MCP HTTP session ${sessionId} idle for ${Math.round(HTTP_SESSION_IDLE_TIMEOUT_MS / 60000)} minutes, closing`);
+      session.transport.close().catch(e => {
+        logger.warn(`Failed to close MCP HTTP session ${sessionId}: ${(e as Error).message}`);
+      });
+    }, HTTP_SESSION_IDLE_TIMEOUT_MS);
+    session.idleTimer.unref();
+  }
+
   /**
    * 启动 stdio 传输模式
    * 用于 Claude Code 插件模式，通过 stdin/stdout 与 Claude 通信
    */
   async startStdioTransport(): Promise<void> {
+    const connection = this.createConnection();
     this.stdioTransport = new StdioServerTransport();
-    await this.server.connect(this.stdioTransport);
+    this.stdioTransport.onclose = () => {
+      this.connections.delete(connection);
+    };
+    this.connections.add(connection);
+    await connection.server.connect(this.stdioTransport);
     logger.info('MCP server connected via stdio transport');
   }
 
@@ -0,0 +1,61 @@
+/**
+ * 项目路径编码
+ *
+ * MCP resource URI 中的 {projectPath} 变量使用 encodeURIComponent，保证可逆且无冲突：
+ *   /home/me/my_app -> %2Fhome%2Fme%2Fmy_app
+ *   C:\work\app     -> C%3A%5Cwork%5Capp
+ *
+ * 数据目录名长度受 NAME_MAX（通常 255 字节）限制，不能直接使用 URI 编码：
+ * 目录名由路径末尾的可读部分和路径哈希组成，原路径记录在目录内的元数据文件中（见 file-review-store.ts）
+ *   /home/me/my_app -> home_me_my_app-3f2a9c0d1b4e5f67
+ *
+ * 旧版本将 / 和 : 替换为 _ 并去掉开头的 /（/home/me/my_app -> home_me_my_app），
+ * 解码时无法区分原路径中的 _，仅保留用于迁移和兼容旧 URI。
+ */
+
+import { createHash } from 'crypto';
+
+const DIR_NAME_PREFIX_LENGTH = 48;  // 目录名中可读部分的最大长度
+const DIR_NAME_HASH_LENGTH = 16;
+const DIR_NAME_PATTERN = new RegExp(`-[0-9a-f]{${DIR_NAME_HASH_LENGTH}}$`);
+
+export function encodeProjectPath(projectPath: string): string {
+  return encodeURIComponent(projectPath);
+}
+
+// 解码失败（非法的百分号编码）时返回 null
+export function decodeProjectPath(encoded: string): string | null {
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    return null;
+  }
+}
+
+// 项目数据目录名：保留路径末尾（通常是项目名）便于辨认，哈希保证唯一
+export function projectDirName(projectPath: string): string {
+  const readable = projectPath
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^_+/, '')
+    .slice(-DIR_NAME_PREFIX_LENGTH);
+  const hash = createHash('sha256').update(projectPath).digest('hex').slice(0, DIR_NAME_HASH_LENGTH);
+  return `${readable}-${hash}`;
+}
+
+// 是否为 projectDirName 生成的目录名（其余目录是旧版本创建的，需要迁移）
+export function isProjectDirName(name: string): boolean {
+  return DIR_NAME_PATTERN.test(name);
+}
+
+// 旧版编码规则（有损）
+export function legacyEncodeProjectPath(projectPath: string): string {
+  return projectPath
+    .replace(/^\//, '')      // 移除开头的 /
+    .replace(/\//g, '_')     // 替换 / 为 _
+    .replace(/:/g, '_');     // 替换 : 为 _ (Windows 盘符)
+}
+
+// 绝对路径编码后必然包含 %（/ 或 : 被编码），不含 % 的 URI 变量或目录名是旧版编码
+export function isLegacyEncoded(encoded: string): boolean {
+  return !encoded.includes('%');
+}
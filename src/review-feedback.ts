@@ -0,0 +1,475 @@
+/**
+ * 审核结果反馈
+ * 将审核者的决定格式化为发给 Agent 的指令（批准 / 修改意见 / 拒绝），
+ * ExitPlanMode hook、MCP 工具（get_review_result、wait_for_review）及 MCP prompts 共用，保证 Agent 收到的内容一致
+ */
+
+import { isSuggestionApplicable, type Review, type Comment, type CommentSeverity, type ReviewStatus, type SectionReviewStatus, type ApprovalSettings } from './review-manager.js';
+
+export interface ReviewDecision {
+  decision: 'approve' | 'block';
+  reason: string;
+}
+
+// 审核结果（HTTP /decision 接口与 MCP 工具共用的结构）
+export interface ReviewResult {
+  reviewId: string;
+  status: ReviewStatus;
+  decided: boolean;
+  decision?: ReviewDecision['decision'];
+  reason?: string;
+}
+
+export function getReviewResult(review: Review): ReviewResult {
+  const decision = buildReviewDecision(review);
+  return {
+    reviewId: review.id,
+    status: review.status,
+    decided: decision !== null,
+    ...decision
+  };
+}
+
+// 审核者是否已做出决定（hook 据此结束等待）
+export function isReviewDecided(status: ReviewStatus): boolean {
+  return status === 'approved' || status === 'rejected' || status === 'changes_requested';
+}
+
+/**
+ * 根据审核结果生成发给 Agent 的决定
+ * 审核尚未完成时返回 null
+ */
+export function buildReviewDecision(review: Review): ReviewDecision | null {
+  if (!isReviewDecided(review.status)) {
+    return null;
+  }
+
+  // 用户拒绝了整个计划，阻止并要求 Agent 放弃
+  if (review.status === 'rejected') {
+    return { decision: 'block', reason: formatRejection(review) };
+  }
+
+  const unresolvedComments = review.comments.filter(c => !c.resolved);
+  const blockingComments = unresolvedComments.filter(isBlocking);
+  const nonBlockingComments = unresolvedComments.filter(c => !isBlocking(c));
+  const flaggedSections = sectionKeys(review, 'changes_requested');
+
+  if (review.approvedDirectly || (blockingComments.length === 0 && flaggedSections.length === 0)) {
+    return buildApproval(review, unresolvedComments, nonBlockingComments);
+  }
+  return buildChangesRequested(review, blockingComments, nonBlockingComments, unresolvedComments);
+}
+
+/**
+ * 根据未解决的评论和章节标记生成修订指令（revise-plan-from-feedback prompt 使用）
+ * 与审核者请求修改时 Agent 收到的内容一致，不要求审核已完成
+ */
+export function formatRevisionRequest(review: Review): string {
+  const unresolvedComments = review.comments.filter(c => !c.resolved);
+  const blockingComments = unresolvedComments.filter(isBlocking);
+  const nonBlockingComments = unresolvedComments.filter(c => !isBlocking(c));
+
+  if (unresolvedComments.length === 0 && sectionKeys(review, 'changes_requested').length === 0) {
+    return `Review ${review.id} 中没有未解决的评论或需要修改的章节，无需修订。\n\n**当前${documentNoun(review)}内容**：\n\n${review.planContent}`;
+  }
+  const { reason } = buildChangesRequested(review, blockingComments, nonBlockingComments, unresolvedComments);
+  // 没有单独附上用户修改后的内容时，补充当前内容作为修订基础
+  return hasHumanEdits(review)
+    ? reason
+    : `${reason}\n\n**当前${documentNoun(review)}内容**：\n\n${review.planContent}`;
+}
+
+/**
+ * 审核历史：活动日志、版本和评论（summarize-review-history prompt 使用）
+ */
+export function formatReviewHistory(review: Review): string {
+  // 版本哈希只显示前 8 位
+  const short = (value?: string) => value && /^[0-9a-f]{64}$/.test(value) ? value.substring(0, 8) : value;
+  const activity = review.activity.map(e => {
+    const change = e.from ? ` ${short(e.from)} → ${short(e.to) ?? ''}` : e.to ? ` → ${short(e.to)}` : '';
+    const comment = e.commentId ? `（评论 ${e.commentId}）` : '';
+    const detail = e.detail ? `：${e.detail}` : '';
+    return `- ${new Date(e.at).toISOString()} [${e.actor}] ${e.type}${change}${comment}${detail}`;
+  });
+
+  const versions = review.documentVersions.map(v => {
+    const current = v.versionHash === review.currentVersion ? '（当前）' : '';
+    const description = v.changeDescription ? `：${v.changeDescription}` : '';
+    return `- ${v.versionHash.substring(0, 8)}${current} ${new Date(v.createdAt).toISOString()} [${v.author ?? 'agent'}]${description}`;
+  });
+
+  const comments = review.comments.map(c => {
+    const state = !c.resolved ? '未解决' : c.verification?.status === 'pending' ? '已处理，待复核' : '已解决';
+    const quote = c.quote ? `引用 "${c.quote}"，` : '';
+    const resolver = c.resolvedBy === 'reviewer' ? '审核者' : 'Agent';
+    const resolution = c.resolution ? `；${resolver}处理说明：${c.resolution}` : '';
+    return `- [ID: ${c.id}, ${c.severity}, ${state}] ${quote}${commentText(c)}${resolution}`;
+  });
+
+  return `Review ${review.id}（状态：${review.status}${review.projectPath ? `，项目：${review.projectPath}` : ''}）
+
+**活动日志**：
+${activity.join('\n') || '（无）'}
+
+**版本**：
+${versions.join('\n')}
+
+**评论**：
+${comments.join('\n') || '（无）'}`;
+}
+
+/**
+ * 审核者的提问：未解决的 question 评论及其讨论串（answer-reviewer-questions prompt 使用）
+ */
+export function formatReviewerQuestions(review: Review): string {
+  const questions = review.comments.filter(c => !c.resolved && c.severity === 'question');
+  if (questions.length === 0) return '';
+
+  return questions.map((c, index) => {
+    const quote = c.quote ? `引用: "${c.quote}"\n   ` : '';
+    const thread = c.thread
+      .map(m => `\n   - ${m.author === 'reviewer' ? '审核者' : 'Agent'}: ${m.body}`)
+      .join('');
+    return `${index + 1}. [ID: ${c.id}] ${quote}问题: ${c.comment}${thread}`;
+  }).join('\n');
+}
+
+// 用户批准：允许 ExitPlanMode 执行（选择留在 Plan Mode 时阻止退出）
+function buildApproval(review: Review, unresolvedComments: Comment[], nonBlockingComments: Comment[]): ReviewDecision {
+  const stayInPlanMode = review.approval?.mode === 'plan';
+
+  // 构建批准指令
+  let reason = formatApprovalInstructions(review);
+
+  // 非阻塞性评论作为建议附加；passThrough 模式下全部评论都作为建议
+  const suggestions = review.passThrough ? unresolvedComments : nonBlockingComments;
+  if (suggestions.length > 0) {
+    const suggestionsText = formatSuggestions(suggestions, review.planContent);
+    reason += `\n\n**用户建议**（非阻塞性反馈，可在实现过程中参考）：\n\n${suggestionsText}`;
+    const replacementsText = formatReplacements(suggestions, review);
+    if (replacementsText) {
+      reason += `\n\n**建议的替换文本**（将 original 替换为 replacement）：\n\n${replacementsText}`;
+    }
+    const outdatedText = formatOutdatedReplacements(suggestions, review);
+    if (outdatedText) {
+      reason += `\n\n**已过期的替换建议**（引用的文本在当前版本中已变化，请参考建议内容手动处理）：\n\n${outdatedText}`;
+    }
+  }
+
+  // 不在范围内的章节不执行
+  const outOfScope = sectionKeys(review, 'out_of_scope');
+  if (outOfScope.length > 0) {
+    reason += `\n\n**不在本次范围内的章节**（不要执行）：\n${outOfScope.map(k => `- ${k}`).join('\n')}`;
+  }
+
+  // 审核者可能在执行期间撤回批准
+  if (!stayInPlanMode) {
+    reason += `\n\n执行期间审核者可能撤回批准，可读取 MCP 资源 review://${review.id}/approval 确认批准状态。`;
+  }
+
+  // 附加最终批准的计划内容
+  if (review.planContent) {
+    const noun = documentNoun(review);
+    const editNote = hasHumanEdits(review) ? `（用户在审核中直接修改了${noun}，请以此内容为准）` : '';
+    const label = isToolReview(review) ? '最终批准的文档内容' : '最终批准的 Plan 内容';
+    reason += `\n\n**${label}**${editNote}：\n\n${review.planContent}`;
+  }
+
+  return { decision: stayInPlanMode ? 'block' : 'approve', reason };
+}
+
+// 用户有反馈：阻止并返回评论
+function buildChangesRequested(
+  review: Review,
+  blockingComments: Comment[],
+  nonBlockingComments: Comment[],
+  unresolvedComments: Comment[]
+): ReviewDecision {
+  const commentsText = formatComments(blockingComments, review.planContent);
+  const suggestionsText = formatSuggestions(nonBlockingComments, review.planContent);
+  const suggestionsSection = suggestionsText
+    ? `\n\n**非阻塞性建议**（可酌情采纳，不要求必须修改）：\n\n${suggestionsText}`
+    : '';
+  const replacementsText = formatReplacements(unresolvedComments, review);
+  const outdatedText = formatOutdatedReplacements(unresolvedComments, review);
+  // 用户直接修改过计划时，Agent 需要在修改后的内容上修订
+  const editedPlanSection = hasHumanEdits(review) && review.planContent
+    ? `\n\n**用户已直接修改${documentNoun(review)}**，请在以下当前内容的基础上修订，保留用户的修改：\n\n${review.planContent}`
+    : '';
+  const sectionsText = formatSectionReviews(review);
+  const sectionsSection = sectionsText
+    ? `\n\n**章节审核**（只修订需要修改的章节和评论涉及的内容，其余章节保持原样）：\n\n${sectionsText}`
+    : '';
+  const replacementsSection = replacementsText
+    ? `\n\n**建议的替换文本**（将 original 替换为 replacement，偏移量基于当前${documentNoun(review)}内容）：\n\n${replacementsText}`
+    : '';
+  const outdatedSection = outdatedText
+    ? `\n\n**已过期的替换建议**（引用的文本在当前${documentNoun(review)}中已变化，请参考建议内容手动处理）：\n\n${outdatedText}`
+    : '';
+
+  // 修订内容通过 update_plan 提交（附变更摘要和每条评论的处理说明）；Plan Mode 下仍由 ExitPlanMode 等待审核
+  const resubmit = isToolReview(review)
+    ? `请根据以上反馈修改文档，然后调用 update_plan 工具（reviewId: ${review.id}）提交修订版本，附上变更摘要（changeDescription）以及每条评论的处理说明（resolvedComments，使用上方的评论 ID）。
+提交后调用 wait_for_review 等待审核结果。`
+    : `请根据以上反馈修改计划，然后调用 update_plan 工具（reviewId: ${review.id}）提交修订版本，附上变更摘要（changeDescription）以及每条评论的处理说明（resolvedComments，使用上方的评论 ID），审核者会在对应评论旁看到这些说明。
+
+然后再次调用 ExitPlanMode 等待审核。同一会话中的提交会自动作为该 review 的修订版本；在其他会话中提交时，请在计划文件开头添加以下标记：
+<!-- REVIEW_ID: ${review.id} -->`;
+
+  return {
+    decision: 'block',
+    reason: `用户要求对${documentNoun(review)}做以下修改（Review ID: ${review.id}）：
+
+**必须修改**：
+
+${commentsText || '见下方需要修改的章节。'}${sectionsSection}${suggestionsSection}${replacementsSection}${outdatedSection}${editedPlanSection}
+
+${resubmit}`
+  };
+}
+
+// 审核者拒绝计划时的阻止信息：要求 Agent 放弃计划，而不是修订后重新提交
+function formatRejection(review: Review): string {
+  const reason = review.rejectionReason ? `\n\n**拒绝原因**：${review.rejectionReason}` : '';
+  const noun = documentNoun(review);
+  return `用户拒绝了该${noun}（Review ID: ${review.id}）。${reason}
+
+**重要指令**：
+1. 放弃当前${noun}，不要修订后重新提交，也不要开始执行
+2. 停止当前任务，向用户简要说明${noun}已被拒绝
+3. 等待用户的新指示`;
+}
+
+// 按审核者选择的执行方式生成批准指令
+function formatApprovalInstructions(review: Review): string {
+  const approval = review.approval ?? { mode: 'auto_accept' };
+  if (isToolReview(review)) {
+    return formatDocumentApprovalInstructions(approval);
+  }
+  switch (approval.mode) {
+    case 'manual':
+      return `用户已批准计划，并要求逐项确认编辑。
+
+**重要指令**：
+1. 退出 Plan Mode
+2. 保持默认模式（每次编辑需用户确认），不要切换到 Auto Accept Mode
+3. 按照计划开始执行`;
+    case 'checkpoint':
+      return `用户已批准计划，但只允许先执行前 ${approval.checkpointSteps} 步。
+
+**重要指令**：
+1. 退出 Plan Mode
+2. 切换到 Auto Accept Mode（自动接受编辑模式）
+3. 只执行计划的前 ${approval.checkpointSteps} 步
+4. 完成后暂停，向用户汇报进展，等待用户确认后再继续`;
+    case 'plan':
+      return `用户认可计划的方向，但希望留在 Plan Mode 继续完善计划。
+
+**重要指令**：
+1. 不要退出 Plan Mode，不要开始执行
+2. 根据以下内容继续完善计划，必要时向用户确认细节
+3. 完善后再次调用 ExitPlanMode，新的计划会作为本次 review 的修订版本提交审核`;
+    default:
+      return `用户已批准计划。
+
+**重要指令**：
+1. 退出 Plan Mode
+2. 切换到 Auto Accept Mode（自动接受编辑模式）
+3. 按照计划开始执行`;
+  }
+}
+
+// 通过 request_human_review 提交的文档不在 Plan Mode 中，指令不涉及模式切换
+function formatDocumentApprovalInstructions(approval: ApprovalSettings): string {
+  switch (approval.mode) {
+    case 'manual':
+      return `用户已批准该文档，并要求逐项确认编辑。
+
+**重要指令**：
+1. 按照文档继续工作
+2. 每次编辑前等待用户确认`;
+    case 'checkpoint':
+      return `用户已批准该文档，但只允许先执行前 ${approval.checkpointSteps} 步。
+
+**重要指令**：
+1. 只执行文档中的前 ${approval.checkpointSteps} 步
+2. 完成后暂停，向用户汇报进展，等待用户确认后再继续`;
+    case 'plan':
+      return `用户认可文档的方向，但希望继续完善后再执行。
+
+**重要指令**：
+1. 不要开始执行
+2. 根据以下内容继续完善文档，必要时向用户确认细节
+3. 完善后调用 request_human_review 重新提交审核`;
+    default:
+      return `用户已批准该文档。
+
+**重要指令**：
+1. 按照文档继续工作`;
+  }
+}
+
+// 是否为通过 request_human_review 工具提交的审核（而非 ExitPlanMode hook）
+function isToolReview(review: Review): boolean {
+  return review.source === 'mcp_tool';
+}
+
+function documentNoun(review: Review): string {
+  return isToolReview(review) ? '文档' : '计划';
+}
+
+// 根据偏移量计算行号
+function calculateLineNumber(content: string, offset: number): number {
+  const textBefore = content.substring(0, offset);
+  return (textBefore.match(/\n/g) || []).length + 1;
+}
+
+// 判断是否为全局性批注
+function isGlobalComment(item: Comment): boolean {
+  return !item.quote || (item.position.startOffset === 0 && item.position.endOffset === 0);
+}
+
+// 非阻塞性评论的标签
+const SUGGESTION_LABELS: Record<CommentSeverity, string> = {
+  blocking: '建议',     // passThrough 模式下 blocking 评论也作为建议
+  suggestion: '建议',
+  nit: '细节',
+  question: '疑问'
+};
+
+function isBlocking(item: Comment): boolean {
+  return item.severity === 'blocking';
+}
+
+// 评论正文；建议评论可能只有替换文本，审核者重新打开的评论注明未被真正解决
+function commentText(item: Comment): string {
+  let text = item.comment;
+  if (item.replacement !== undefined) {
+    const note = '附建议替换文本，见下方 JSON';
+    text = text ? `${text}（${note}）` : note;
+  }
+  if (item.reopenedAt) {
+    const reason = item.reopenNote ? `，审核者说明：${item.reopenNote}` : '';
+    text += `（曾标记为已解决，已被审核者重新打开${reason}）`;
+  }
+  return text;
+}
+
+// 按状态列出章节标题路径
+function sectionKeys(review: Review, status: SectionReviewStatus): string[] {
+  return (review.sectionReviews ?? []).filter(s => s.status === status).map(s => s.key);
+}
+
+// 格式化章节级审核状态（修订时使用）
+function formatSectionReviews(review: Review): string {
+  const groups: Array<[string, string[]]> = [
+    ['需要修改', sectionKeys(review, 'changes_requested')],
+    ['已批准（已锁定，保持原样）', sectionKeys(review, 'approved')],
+    ['不在本次范围内（不要修改）', sectionKeys(review, 'out_of_scope')]
+  ];
+  return groups
+    .filter(([, keys]) => keys.length > 0)
+    .map(([label, keys]) => `${label}：\n${keys.map(k => `- ${k}`).join('\n')}`)
+    .join('\n\n');
+}
+
+// 当前版本是否包含用户在审核界面中的直接修改
+function hasHumanEdits(review: Review): boolean {
+  const current = review.documentVersions.find(v => v.versionHash === review.currentVersion);
+  return current?.author === 'human';
+}
+
+// 格式化建议反馈（非阻塞性评论及 passThrough 模式使用，语气更柔和）
+function formatSuggestions(comments: Comment[], planContent: string): string {
+  const unresolvedComments = comments.filter(c => !c.resolved);
+  if (unresolvedComments.length === 0) return '';
+
+  // 分离普通批注和全局性批注
+  const lineComments = unresolvedComments.filter(c => !isGlobalComment(c));
+  const globalComments = unresolvedComments.filter(c => isGlobalComment(c));
+
+  let result = '';
+
+  // 格式化普通批注（带行号）
+  if (lineComments.length > 0) {
+    result = lineComments.map((item, index) => {
+      const pos = item.position;
+      const label = SUGGESTION_LABELS[item.severity];
+      const startLine = calculateLineNumber(planContent, pos.startOffset);
+      const endLine = calculateLineNumber(planContent, pos.endOffset);
+      const lineInfo = startLine === endLine ? `行 ${startLine}` : `行 ${startLine}-${endLine}`;
+
+      return `${index + 1}. [ID: ${item.id}, ${lineInfo}, 引用: "${item.quote}"] → ${label}: ${commentText(item)}`;
+    }).join('\n');
+  }
+
+  // 格式化全局性批注
+  if (globalComments.length > 0) {
+    if (result) result += '\n\n';
+    result += '**全局性建议**:\n';
+    result += globalComments.map((item, index) => `${index + 1}. [ID: ${item.id}, ${SUGGESTION_LABELS[item.severity]}] ${commentText(item)}`).join('\n');
+  }
+
+  return result;
+}
+
+// 格式化未应用的建议替换（机器可读的 JSON，偏移量基于当前计划内容）
+// 只包含引用区间在当前版本中仍与引用原文一致的建议，与 ReviewManager.applySuggestion 的校验相同
+function formatReplacements(comments: Comment[], review: Review): string {
+  const suggestions = comments.filter(c => !c.resolved && c.replacement !== undefined && isSuggestionApplicable(review, c));
+  if (suggestions.length === 0) return '';
+
+  const items = suggestions.map(c => ({
+    commentId: c.id,
+    severity: c.severity,
+    startOffset: c.position.startOffset,
+    endOffset: c.position.endOffset,
+    original: c.quote,
+    replacement: c.replacement
+  }));
+
+  return '```json\n' + JSON.stringify(items, null, 2) + '\n```';
+}
+
+// 格式化引用区间已失效的建议替换（不给出偏移量，避免按旧位置替换）
+function formatOutdatedReplacements(comments: Comment[], review: Review): string {
+  const outdated = comments.filter(c => !c.resolved && c.replacement !== undefined && !isSuggestionApplicable(review, c));
+  return outdated
+    .map((c, index) => `${index + 1}. [ID: ${c.id}] 原引用: "${c.quote}" → 建议替换为: "${c.replacement}"`)
+    .join('\n');
+}
+
+// 格式化评论反馈（含行号和偏移量，区分普通批注和全局性批注）
+function formatComments(comments: Comment[], planContent: string): string {
+  const unresolvedComments = comments.filter(c => !c.resolved);
+  if (unresolvedComments.length === 0) return '';
+
+  // 分离普通批注和全局性批注
+  const lineComments = unresolvedComments.filter(c => !isGlobalComment(c));
+  const globalComments = unresolvedComments.filter(c => isGlobalComment(c));
+
+  let result = '';
+
+  // 格式化普通批注（带行号）
+  if (lineComments.length > 0) {
+    result = lineComments.map((item, index) => {
+      const pos = item.position;
+      const startLine = calculateLineNumber(planContent, pos.startOffset);
+      const endLine = calculateLineNumber(planContent, pos.endOffset);
+
+      const lineInfo = startLine === endLine ? `行 ${startLine}` : `行 ${startLine}-${endLine}`;
+      const offsetInfo = `偏移 ${pos.startOffset}-${pos.endOffset}`;
+
+      return `${index + 1}. [ID: ${item.id}, ${lineInfo}, ${offsetInfo}, 引用: "${item.quote}"] → 评论: ${commentText(item)}`;
+    }).join('\n');
+  }
+
+  // 格式化全局性批注（单独说明）
+  if (globalComments.length > 0) {
+    if (result) result += '\n\n';
+    result += '**全局性审核意见**:\n';
+    result += globalComments.map((item, index) => `${index + 1}. [ID: ${item.id}] ${commentText(item)}`).join('\n');
+  }
+
+  return result;
+}
@@ -1,47 +1,18 @@
-import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
 import { randomUUID, createHash } from 'crypto';
 import { logger } from './logger.js';
-
-// 全局数据目录，与 Claude Code 配置放在一起
-const BASE_DIR = path.join(os.homedir(), '.claude', 'cc-plan-review');
-const DATA_DIR = path.join(BASE_DIR, 'reviews');
-const LOGS_DIR = path.join(BASE_DIR, 'logs');
+import { DATA_DIR, LOGS_DIR, type ReviewStore, type ReviewMutator } from './review-store.js';
+import { FileReviewStore } from './file-review-store.js';
+import { CURRENT_SCHEMA_VERSION } from './review-schema.js';
+import { computeTextChanges, mapRange, diffLines, groupHunks } from './text-diff.js';
+import { diffMarkdownStructure, listPlanSections } from './markdown-diff.js';
+import { mergeThreeWay, hasConflicts, buildMergedContent } from './three-way-merge.js';
+import { transition, assertTransition, canTransition, revisionTransition, logActivity } from './review-state.js';
 
 // 导出 LOGS_DIR 供其他模块使用
 export { LOGS_DIR };
 
-// 初始化数据目录（在第一次使用时调用）
-let dataDirectoryInitialized = false;
-async function ensureDataDirectory() {
-  if (dataDirectoryInitialized) return;
-  try {
-    // 同时创建 logs 和 reviews 子目录
-    await Promise.all([
-      fs.mkdir(LOGS_DIR, { recursive: true }),
-      fs.mkdir(DATA_DIR, { recursive: true })
-    ]);
-    logger.info(`Data directories initialized at ${BASE_DIR}`);
-  } catch (e) {
-    // ignore if exists
-    logger.debug(`Data directories already exist at ${BASE_DIR}`);
-  }
-  dataDirectoryInitialized = true;
-}
-
-// 项目路径编码函数
-function encodeProjectPath(projectPath: string): string {
-  return projectPath
-    .replace(/^\//, '')      // 移除开头的 /
-    .replace(/\//g, '_')     // 替换 / 为 _
-    .replace(/:/g, '_');     // 替换 : 为 _ (Windows 盘符)
-}
-
-function getProjectDataDir(projectPath: string): string {
-  const encoded = encodeProjectPath(projectPath);
-  return path.join(DATA_DIR, encoded);
-}
+// diff hunk 默认的上下文行数
+const DEFAULT_DIFF_CONTEXT = 3;
 
 // 位置信息接口
 export interface TextPosition {
@@ -72,12 +43,29 @@ export interface VersionSummary {
   hasSameContent: boolean;  // 内容是否与当前版本相同
 }
 
+// 行内词级差异片段
+export interface DiffSpan {
+  text: string;
+  changed: boolean;         // 是否为本行中被修改的部分
+}
+
 // Diff 行接口
 export interface DiffLine {
   type: 'added' | 'removed' | 'unchanged';
   content: string;
   oldLineNumber?: number;
   newLineNumber?: number;
+  spans?: DiffSpan[];       // 修改行（配对的删除/新增行）的词级差异
+}
+
+// Diff hunk：变更行及其上下文在 lines 中的范围 [startIndex, endIndex)
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  startIndex: number;
+  endIndex: number;
 }
 
 // Diff 结果接口
@@ -85,6 +73,7 @@ export interface DiffResult {
   fromVersion: string;
   toVersion: string;
   lines: DiffLine[];
+  hunks: DiffHunk[];        // hunk 之外的未变更行可折叠显示
   stats: {
     additions: number;
     deletions: number;
@@ -92,7 +81,75 @@ export interface DiffResult {
   };
 }
 
-// 差异变更接口
+// Markdown 块类型（结构化 diff 的比较单元）
+export type MarkdownBlockType = 'paragraph' | 'list-item' | 'code' | 'table' | 'blockquote';
+
+export interface MarkdownBlock {
+  type: MarkdownBlockType;
+  content: string;
+  lang?: string;            // 代码块语言（如 mermaid）
+}
+
+// 块级差异
+export interface BlockDiff {
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  type: MarkdownBlockType;
+  oldContent?: string;
+  newContent?: string;
+  lines?: DiffLine[];       // modified 时块内的行级差异
+}
+
+// 章节级差异（章节以标题路径匹配）
+export interface SectionDiff {
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  moved: boolean;           // 章节在文档中的相对顺序发生了变化
+  path: string[];           // 标题路径，标题之前的内容为空数组
+  heading: string;
+  level: number;
+  blocks: BlockDiff[];
+}
+
+export interface StructureDiffStats {
+  added: number;
+  removed: number;
+  modified: number;
+  moved: number;
+  unchanged: number;
+}
+
+// 计划中的章节（以标题路径标识）
+export interface PlanSection {
+  key: string;              // 标题路径拼接而成，如 "实施计划 > 回滚方案"
+  path: string[];
+  heading: string;
+  level: number;
+  line: number;             // 标题所在行号
+}
+
+// 章节级审核状态
+export type SectionReviewStatus =
+  | 'approved'              // 已批准，Agent 修订时不应修改
+  | 'changes_requested'     // 需要修改
+  | 'out_of_scope';         // 不在本次范围内，Agent 不应修改或执行
+
+export const SECTION_REVIEW_STATUSES: SectionReviewStatus[] = ['approved', 'changes_requested', 'out_of_scope'];
+
+export interface SectionReview {
+  key: string;
+  heading: string;
+  status: SectionReviewStatus;
+  updatedAt: number;
+}
+
+// 结构化 Diff 结果接口
+export interface StructureDiffResult {
+  fromVersion: string;
+  toVersion: string;
+  sections: SectionDiff[];
+  stats: StructureDiffStats;
+}
+
+// 差异变更接口（字符级，偏移量基于上一版本内容）
 export interface DiffChange {
   type: 'insert' | 'delete' | 'modify';
   startOffset: number;
@@ -108,11 +165,38 @@ export interface CommentQuestion {
   options?: string[];             // choice/multiChoice 类型时的选项
 }
 
+// 评论讨论串中的一条消息（评论内容本身是讨论的起点，不在 thread 中）
+export interface CommentMessage {
+  id: string;
+  author: 'reviewer' | 'agent';
+  createdAt: number;
+  body: string;
+  question?: CommentQuestion;     // Agent 的提问（ask_questions）
+  documentVersion: string;        // 发送时的文档版本
+}
+
+// 评论严重程度：只有 blocking 会阻止批准
+export type CommentSeverity = 'blocking' | 'suggestion' | 'nit' | 'question';
+
+export const COMMENT_SEVERITIES: CommentSeverity[] = ['blocking', 'suggestion', 'nit', 'question'];
+
+// Agent 修订处理评论后，等待审核者复核
+export interface CommentVerification {
+  status: 'pending' | 'confirmed' | 'reopened';
+  fromVersion: string;        // 修订前的版本
+  toVersion: string;          // 处理该评论的 Agent 修订版本
+  anchorChanged?: boolean;    // 修订是否改动了引用的文本（全局性批注没有引用）
+  line?: number;              // 引用文本在修订版本中的起始行号，用于定位 diff hunk
+  reviewedAt?: number;        // 审核者确认或重新打开的时间
+}
+
 export interface Comment {
   id: string;
   createdAt: number;
   quote: string;              // 引用文本（保留用于显示）
   comment: string;            // 评论内容
+  severity: CommentSeverity;  // 严重程度
+  replacement?: string;       // 建议评论：替换引用区间的文本（类似 GitHub suggestion）
 
   // 位置信息
   position: TextPosition;
@@ -122,7 +206,10 @@ export interface Comment {
   originalPosition?: TextPosition;  // 原始位置（用于版本迁移失败时回退）
   positionStatus: 'valid' | 'adjusted' | 'stale';  // 位置状态
 
-  // Question 相关字段
+  // 讨论串：按时间顺序的全部往来消息
+  thread: CommentMessage[];
+
+  // 当前一轮的问答（thread 中最新的提问及其回答）
   question?: CommentQuestion;     // Agent 提出的问题
   answer?: string;                // 用户的回答
 
@@ -131,6 +218,26 @@ export interface Comment {
   resolvedAt?: number;
   resolvedInVersion?: string;
   resolution?: string;            // 解决说明
+  resolvedBy?: ActivityActor;     // 由谁解决（审核者应用建议或直接修改时为 reviewer）
+  verification?: CommentVerification;  // Agent 处理后的复核状态
+  reopenedAt?: number;            // 审核者最近一次重新打开的时间
+  reopenNote?: string;            // 重新打开时的说明
+}
+
+// 三方合并结果片段：无冲突的行，或审核者与 Agent 修改了同一区域的冲突
+export type MergeSegment =
+  | { type: 'text'; lines: string[] }
+  | { type: 'conflict'; id: string; base: string[]; ours: string[]; theirs: string[] };
+
+// Agent 修订与审核者的人工修改冲突，等待审核者解决后才成为当前版本
+export interface PendingMerge {
+  baseVersion: string;      // 共同祖先：Agent 的上一个版本
+  headVersion: string;      // 合并时的当前版本（包含人工修改）
+  agentContent: string;     // Agent 提交的修订内容
+  segments: MergeSegment[];
+  changeDescription?: string;
+  resolvedComments?: Array<{ commentId: string; resolution: string }>;
+  createdAt: number;
 }
 
 // Review 状态枚举 (PR 风格命名)
@@ -139,9 +246,65 @@ export type ReviewStatus =
   | 'changes_requested' // 请求更改，用户提交了反馈，等待 Agent 处理
   | 'discussing'        // 讨论中，Agent 提出了问题，等待用户回答
   | 'approved'          // 已批准（终态）
+  | 'rejected'          // 已拒绝，Agent 应放弃该计划（终态）
   | 'updated';          // 已更新，Agent 提交了修订版本，等待用户再次审阅
 
+// 审核来源：ExitPlanMode hook 拦截的计划，或 Agent 通过 request_human_review 工具提交的任意 Markdown 文档
+export type ReviewSource = 'exit_plan_mode' | 'mcp_tool';
+
+// 提交计划的 Agent 会话（来自 ExitPlanMode hook 输入），同一会话的下一次提交自动作为修订版本
+export interface AgentSession {
+  sessionId: string;
+  toolUseId?: string;        // 最近一次 ExitPlanMode 调用的 tool_use_id
+  transcriptPath?: string;   // 会话记录文件路径
+}
+
+// 批准后 Agent 的执行方式
+export type ApprovalMode =
+  | 'auto_accept'       // 执行，自动接受编辑
+  | 'manual'            // 执行，每次编辑需用户确认
+  | 'checkpoint'        // 只执行前 N 步，然后暂停等待用户确认
+  | 'plan';             // 留在 Plan Mode 继续完善计划
+
+export const APPROVAL_MODES: ApprovalMode[] = ['auto_accept', 'manual', 'checkpoint', 'plan'];
+
+export interface ApprovalSettings {
+  mode: ApprovalMode;
+  checkpointSteps?: number;   // checkpoint 模式下执行的步数
+}
+
+// 活动日志：状态变更、评论和版本的修改记录
+export type ActivityActor = 'reviewer' | 'agent';
+
+export type ActivityType =
+  | 'review_created'
+  | 'status_changed'
+  | 'version_created'
+  | 'merge_pending'       // Agent 修订与人工修改冲突
+  | 'merge_resolved'
+  | 'comment_added'
+  | 'comment_edited'
+  | 'comment_deleted'
+  | 'comment_resolved'
+  | 'comment_confirmed'   // 审核者确认 Agent 已处理
+  | 'comment_reopened'
+  | 'question_asked'
+  | 'question_answered'
+  | 'section_marked';     // 审核者标记章节状态
+
+export interface ActivityEntry {
+  id: string;
+  at: number;
+  actor: ActivityActor;
+  type: ActivityType;
+  from?: string;          // 变更前的状态 / 版本
+  to?: string;            // 变更后的状态 / 版本
+  commentId?: string;
+  detail?: string;
+}
+
 export interface Review {
+  schemaVersion: number;                // 存储格式版本（见 review-schema.ts）
   id: string;
   createdAt: number;
   status: ReviewStatus;
@@ -154,176 +317,132 @@ export interface Review {
 
   // 项目隔离
   projectPath?: string;                 // 关联的项目路径
+  source?: ReviewSource;                // 审核来源（缺省为 exit_plan_mode）
+  session?: AgentSession;               // 提交计划的 Agent 会话（hook 提交时记录）
   approvedDirectly?: boolean;           // 是否直接批准（无评论）
   approvalNote?: string;                // 批准时的补充意见（可选）
   passThrough?: boolean;                // passThrough 模式：评论作为建议传递，直接通过
+  approval?: ApprovalSettings;          // 批准时选择的执行方式（缺省为 auto_accept）
+  pendingMerge?: PendingMerge;          // 待解决冲突的 Agent 修订
+  approvalRevoked?: ApprovalRevocation; // 批准后被审核者撤回（重新请求修改）
+  rejectionReason?: string;             // 拒绝原因（可选）
+  sectionReviews?: SectionReview[];     // 章节级审核状态（只保留当前版本中存在的章节）
+  activity: ActivityEntry[];            // 活动日志（按时间顺序追加）
+}
+
+// 审核者撤回批准的记录
+export interface ApprovalRevocation {
+  revokedAt: number;
+  note: string;                         // 撤回原因，同时作为全局性批注发给 Agent
+  commentId: string;                    // 对应的全局性批注
+}
+
+// 是否存在未解决的阻塞性评论
+export function hasBlockingComments(review: Review): boolean {
+  return review.comments.some(c => !c.resolved && c.severity === 'blocking');
+}
+
+// 被标记为需要修改的章节
+export function sectionsRequestingChanges(review: Review): SectionReview[] {
+  return (review.sectionReviews ?? []).filter(s => s.status === 'changes_requested');
+}
+
+// 建议评论的引用区间在当前版本中仍精确对应引用原文，可以按偏移量安全替换
+export function isSuggestionApplicable(review: Review, comment: Comment): boolean {
+  return comment.documentVersion === review.currentVersion
+    && comment.positionStatus !== 'stale'
+    && review.planContent.slice(comment.position.startOffset, comment.position.endOffset) === comment.quote;
+}
+
+// Agent 已处理、等待审核者确认的评论
+export function isAwaitingVerification(comment: Comment): boolean {
+  return comment.resolved && comment.verification?.status === 'pending';
+}
+
+export interface PlanUpdateOptions {
+  changeDescription?: string;
+  author?: 'human' | 'agent';
+  resolvedComments?: Array<{
+    commentId: string;
+    resolution: string;
+  }>;
+  autoResolveAll?: boolean;  // 自动 resolve 所有未解决的评论
+  baseVersion?: string;      // 新内容基于的版本，与当前版本不一致时拒绝更新
+  session?: AgentSession;    // 提交修订的 Agent 会话（记录最新的 tool_use_id）
 }
 
 export class ReviewManager {
+  private store: ReviewStore;
+
+  // 未指定存储时使用默认的 JSON 文件存储
+  constructor(store?: ReviewStore) {
+    this.store = store ?? new FileReviewStore(DATA_DIR);
+  }
+
   // 计算文档内容的哈希值
   private calculateContentHash(content: string): string {
     return createHash('sha256').update(content, 'utf-8').digest('hex');
   }
 
-  // 确保项目数据目录存在
-  private async ensureProjectDir(projectPath: string): Promise<string> {
-    const dir = getProjectDataDir(projectPath);
-    await fs.mkdir(dir, { recursive: true });
-    return dir;
-  }
-
   async _save(review: Review): Promise<void> {
-    await ensureDataDirectory();
-    const dir = review.projectPath
-      ? await this.ensureProjectDir(review.projectPath)
-      : DATA_DIR;
-    const filePath = path.join(dir, `${review.id}.json`);
-    await fs.writeFile(
-      filePath,
-      JSON.stringify(review, null, 2)
-    );
-    logger.debug(`Saved review ${review.id} to ${filePath}`);
+    await this.store.save(review);
   }
 
-  async getReview(id: string, projectPath?: string): Promise<Review | null> {
-    // 在指定项目目录查找
-    if (projectPath) {
-      const dir = getProjectDataDir(projectPath);
-      try {
-        const data = await fs.readFile(path.join(dir, `${id}.json`), 'utf-8');
-        return JSON.parse(data) as Review;
-      } catch (e) {
-        logger.warn(`Failed to load review ${id} from project ${projectPath}: ${(e as Error).message}`);
-        return null;
-      }
-    }
-
-    // 在全局目录查找
-    try {
-      const data = await fs.readFile(path.join(DATA_DIR, `${id}.json`), 'utf-8');
-      return JSON.parse(data) as Review;
-    } catch {
-      // 继续搜索项目目录
-    }
-
-    // 搜索所有项目目录
-    try {
-      const entries = await fs.readdir(DATA_DIR, { withFileTypes: true });
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          try {
-            const filePath = path.join(DATA_DIR, entry.name, `${id}.json`);
-            const data = await fs.readFile(filePath, 'utf-8');
-            return JSON.parse(data) as Review;
-          } catch {
-            // 继续搜索下一个项目
-          }
-        }
-      }
-    } catch {
-      // 目录不存在
+  // 在存储锁内读取-修改-写回 review，review 不存在时抛出异常
+  private async modifyReview(reviewId: string, action: string, mutate: ReviewMutator): Promise<Review> {
+    const review = await this.store.update(reviewId, mutate);
+    if (!review) {
+      logger.error(`${action} failed: Review ${reviewId} not found`);
+      throw new Error('Review not found');
     }
+    return review;
+  }
 
-    logger.warn(`Failed to load review ${id}: not found in any location`);
-    return null;
+  async getReview(id: string, projectPath?: string): Promise<Review | null> {
+    return this.store.get(id, projectPath);
   }
 
   async getLatestReview(projectPath?: string): Promise<Review | null> {
-    const searchDir = projectPath ? getProjectDataDir(projectPath) : DATA_DIR;
-
-    try {
-      await fs.access(searchDir);
-    } catch {
-      return null;
-    }
-
-    try {
-      const files = await fs.readdir(searchDir);
-      const jsonFiles = files.filter(f => f.endsWith('.json'));
-
-      if (jsonFiles.length === 0) return null;
-
-      let latestFile: string | null = null;
-      let maxTime = 0;
-
-      for (const file of jsonFiles) {
-        const stats = await fs.stat(path.join(searchDir, file));
-        if (stats.mtimeMs > maxTime) {
-          maxTime = stats.mtimeMs;
-          latestFile = file;
-        }
-      }
-
-      if (!latestFile) return null;
-      return this.getReview(latestFile.replace('.json', ''), projectPath);
-    } catch (e) {
-      logger.error("Error getting latest review:", e);
-      return null;
-    }
+    return this.store.getLatest(projectPath);
   }
 
   /**
-   * 获取所有未完成的 reviews (status !== 'approved')
+   * 获取所有未完成的 reviews（不含 approved / rejected）
    * @param projectPath 可选，指定项目路径过滤
    * @returns 未完成状态的 reviews 列表，按创建时间倒序排列
    */
   async getPendingReviews(projectPath?: string): Promise<Review[]> {
-    await ensureDataDirectory();
-    const searchDir = projectPath ? getProjectDataDir(projectPath) : DATA_DIR;
-
-    try {
-      await fs.access(searchDir);
-    } catch {
-      return [];
-    }
-
-    const results: Review[] = [];
-
-    // 读取指定目录下的 reviews
-    try {
-      const files = await fs.readdir(searchDir);
-      const jsonFiles = files.filter(f => f.endsWith('.json'));
-
-      for (const file of jsonFiles) {
-        try {
-          const data = await fs.readFile(path.join(searchDir, file), 'utf-8');
-          const review = JSON.parse(data) as Review;
-          // 过滤未完成的 reviews
-          if (review.status !== 'approved') {
-            results.push(review);
-          }
-        } catch {
-          // 跳过无效文件
-        }
-      }
-    } catch (e) {
-      logger.error("Error reading reviews directory:", e);
-    }
+    return this.store.listPending(projectPath);
+  }
 
-    // 如果没有指定 projectPath，也搜索项目子目录
-    if (!projectPath) {
-      try {
-        const entries = await fs.readdir(DATA_DIR, { withFileTypes: true });
-        for (const entry of entries) {
-          if (entry.isDirectory()) {
-            const decodedPath = '/' + entry.name.replace(/_/g, '/');
-            const projectReviews = await this.getPendingReviews(decodedPath);
-            results.push(...projectReviews);
-          }
-        }
-      } catch {
-        // 目录不存在
-      }
-    }
+  /**
+   * 获取 Agent 会话中最近的未完成 review（hook 据此把同一会话的下一次提交关联为修订版本）
+   * @param sessionId hook 输入中的 session_id
+   */
+  async getSessionReview(sessionId: string): Promise<Review | null> {
+    const reviews = await this.store.listBySession(sessionId);
+    // 留在 Plan Mode 的批准不是终态，仍可接收修订
+    return reviews.find(r =>
+      (r.status !== 'approved' && r.status !== 'rejected') || canTransition(r, 'continue_planning')
+    ) ?? null;
+  }
 
-    // 按创建时间倒序排列
-    return results.sort((a, b) => b.createdAt - a.createdAt);
+  /**
+   * 获取所有有 review 记录的项目路径
+   */
+  async getProjects(): Promise<string[]> {
+    return this.store.listProjects();
   }
 
-  async createReview(plan: string, projectPath?: string): Promise<Review> {
+  async createReview(
+    plan: string,
+    projectPath?: string,
+    options?: { source?: ReviewSource; session?: AgentSession }
+  ): Promise<Review> {
+    const source = options?.source;
     const id = randomUUID();
     const versionHash = this.calculateContentHash(plan);
-    logger.info(`Creating new review with ID: ${id}, version: ${versionHash}, project: ${projectPath || 'global'}`);
+    logger.info(`Creating new review with ID: ${id}, version: ${versionHash}, project: ${projectPath || 'global'}, source: ${source || 'exit_plan_mode'}`);
 
     const initialVersion: DocumentVersion = {
       versionHash,
@@ -332,6 +451,7 @@ export class ReviewManager {
     };
 
     const review: Review = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       id,
       createdAt: Date.now(),
       status: 'open',
@@ -339,8 +459,12 @@ export class ReviewManager {
       comments: [],
       documentVersions: [initialVersion],
       currentVersion: versionHash,
-      projectPath
+      projectPath,
+      source,
+      session: options?.session,
+      activity: []
     };
+    logActivity(review, 'agent', 'review_created', { to: versionHash });
     await this._save(review);
     return review;
   }
@@ -351,30 +475,37 @@ export class ReviewManager {
       quote?: string;      // 可选，全局性批注时为空
       comment: string;
       position?: TextPosition;  // 可选，全局性批注时为空
+      severity?: CommentSeverity;  // 默认 blocking
+      replacement?: string;        // 建议评论的替换文本
     }
   ): Promise<Comment> {
-    const review = await this.getReview(reviewId);
-    if (!review) {
-        logger.error(`Add comment failed: Review ${reviewId} not found`);
-        throw new Error('Review not found');
-    }
-
     // 全局性批注：quote 为空，position 为 { startOffset: 0, endOffset: 0 }
     const isGlobalComment = !commentData.quote || !commentData.position;
     const position = commentData.position || { startOffset: 0, endOffset: 0 };
+    const commentId = randomUUID();
 
-    const comment: Comment = {
-      id: randomUUID(),
-      createdAt: Date.now(),
-      quote: commentData.quote || '',
-      comment: commentData.comment,
-      position,
-      documentVersion: review.currentVersion,
-      positionStatus: 'valid',
-      resolved: false
-    };
-    review.comments.push(comment);
-    await this._save(review);
+    const review = await this.modifyReview(reviewId, 'Add comment', review => {
+      // 建议评论的区间必须精确对应引用原文，否则之后无法安全应用
+      if (commentData.replacement !== undefined && !isGlobalComment
+        && review.planContent.slice(position.startOffset, position.endOffset) !== commentData.quote) {
+        throw new Error('Suggestion range does not match the quoted text');
+      }
+      review.comments.push({
+        id: commentId,
+        createdAt: Date.now(),
+        quote: commentData.quote || '',
+        comment: commentData.comment,
+        severity: commentData.severity ?? 'blocking',
+        ...(commentData.replacement !== undefined && !isGlobalComment && { replacement: commentData.replacement }),
+        position,
+        documentVersion: review.currentVersion,
+        positionStatus: 'valid',
+        thread: [],
+        resolved: false
+      });
+      logActivity(review, 'reviewer', 'comment_added', { commentId, detail: commentData.severity ?? 'blocking' });
+    });
+    const comment = review.comments.find(c => c.id === commentId)!;
 
     if (isGlobalComment) {
       logger.info(`Added global comment to review ${reviewId}: ${comment.id}`);
@@ -385,16 +516,15 @@ export class ReviewManager {
   }
 
   async updateComment(reviewId: string, commentId: string, text: string): Promise<Comment | undefined> {
-    const review = await this.getReview(reviewId);
-    if (!review) {
-        logger.error(`Update comment failed: Review ${reviewId} not found`);
-        throw new Error('Review not found');
-    }
+    const review = await this.modifyReview(reviewId, 'Update comment', review => {
+      const comment = review.comments.find(c => c.id === commentId);
+      if (!comment) return false;
+      comment.comment = text;
+      logActivity(review, 'reviewer', 'comment_edited', { commentId });
+    });
 
     const comment = review.comments.find(c => c.id === commentId);
     if (comment) {
-      comment.comment = text;
-      await this._save(review);
       logger.info(`Updated comment ${commentId} in review ${reviewId}`);
     } else {
       logger.warn(`Update comment failed: Comment ${commentId} not found in review ${reviewId}`);
@@ -403,60 +533,107 @@ export class ReviewManager {
   }
 
   async deleteComment(reviewId: string, commentId: string): Promise<void> {
-    const review = await this.getReview(reviewId);
-    if (!review) {
-        logger.error(`Delete comment failed: Review ${reviewId} not found`);
-        throw new Error('Review not found');
-    }
-
-    review.comments = review.comments.filter(c => c.id !== commentId);
-    await this._save(review);
+    await this.modifyReview(reviewId, 'Delete comment', review => {
+      const count = review.comments.length;
+      review.comments = review.comments.filter(c => c.id !== commentId);
+      if (review.comments.length === count) return false;
+      logActivity(review, 'reviewer', 'comment_deleted', { commentId });
+    });
     logger.info(`Deleted comment ${commentId} from review ${reviewId}`);
   }
 
   // 用户提交反馈（有批注）
   async submitFeedback(reviewId: string): Promise<Review> {
-    const review = await this.getReview(reviewId);
-    if (!review) {
-        logger.error(`Submit feedback failed: Review ${reviewId} not found`);
-        throw new Error('Review not found');
-    }
-
-    // 验证状态转换合法性
-    if (review.status !== 'open' && review.status !== 'updated' && review.status !== 'discussing') {
-        logger.error(`Submit feedback failed: Invalid status transition from ${review.status}`);
-        throw new Error(`Cannot submit feedback from status: ${review.status}`);
-    }
+    const review = await this.modifyReview(reviewId, 'Submit feedback', review => {
+      if (review.pendingMerge) {
+        throw new Error('Resolve merge conflicts before submitting the review');
+      }
 
-    // 检查是否有未解决的 comments
-    const hasUnresolvedComments = review.comments.some(c => !c.resolved);
-    if (!hasUnresolvedComments) {
-        logger.warn(`Submit feedback: No unresolved comments, consider using approveReview instead`);
-    }
+      // 检查是否有未解决的阻塞性 comments 或需要修改的章节
+      if (!hasBlockingComments(review) && sectionsRequestingChanges(review).length === 0) {
+        logger.warn(`Submit feedback: No unresolved blocking comments, consider using approveReview instead`);
+      }
 
-    review.status = 'changes_requested';
-    await this._save(review);
+      transition(review, 'submit_feedback');
+    });
     logger.info(`Submitted feedback for review ${reviewId}`);
     return review;
   }
 
   // 用户直接通过（无批注或接受修改）
-  async approveReview(reviewId: string): Promise<Review> {
-    const review = await this.getReview(reviewId);
-    if (!review) {
-        logger.error(`Approve review failed: Review ${reviewId} not found`);
-        throw new Error('Review not found');
-    }
+  // passThrough 模式下未解决的评论作为建议传递给 Agent
+  async approveReview(reviewId: string, options?: { passThrough?: boolean; approval?: ApprovalSettings }): Promise<Review> {
+    const review = await this.modifyReview(reviewId, 'Approve review', review => {
+      if (review.pendingMerge) {
+        throw new Error('Resolve merge conflicts before submitting the review');
+      }
 
-    // 验证状态转换合法性
-    if (review.status !== 'open' && review.status !== 'updated') {
-        logger.error(`Approve review failed: Invalid status transition from ${review.status}`);
-        throw new Error(`Cannot approve from status: ${review.status}`);
-    }
+      assertTransition(review, 'approve');
 
-    review.status = 'approved';
-    await this._save(review);
-    logger.info(`Approved review ${reviewId}`);
+      const unverified = review.comments.filter(isAwaitingVerification).length;
+      if (unverified > 0) {
+        throw new Error(`Confirm or reopen ${unverified} addressed comment${unverified > 1 ? 's' : ''} before approving`);
+      }
+
+      transition(review, 'approve', options?.passThrough ? 'passThrough' : undefined);
+      review.approvedDirectly = true;
+      delete review.approvalRevoked;
+      if (options?.passThrough) {
+        review.passThrough = true;
+      }
+      if (options?.approval) {
+        review.approval = options.approval;
+      } else {
+        delete review.approval;
+      }
+    });
+    logger.info(`Approved review ${reviewId}${options?.passThrough ? ' with passThrough mode' : ''}${options?.approval ? ` (${options.approval.mode})` : ''}`);
+    return review;
+  }
+
+  // 审核者撤回批准：重新进入 changes_requested，撤回原因作为阻塞性全局批注发给 Agent
+  async reopenReview(reviewId: string, note: string): Promise<Review> {
+    const review = await this.modifyReview(reviewId, 'Reopen review', review => {
+      assertTransition(review, 'revoke_approval');
+      if (!note.trim()) {
+        throw new Error('A note is required to reopen an approved review');
+      }
+
+      const commentId = randomUUID();
+      review.comments.push({
+        id: commentId,
+        createdAt: Date.now(),
+        quote: '',
+        comment: note.trim(),
+        severity: 'blocking',
+        position: { startOffset: 0, endOffset: 0 },
+        documentVersion: review.currentVersion,
+        positionStatus: 'valid',
+        thread: [],
+        resolved: false
+      });
+
+      logActivity(review, 'reviewer', 'comment_added', { commentId, detail: 'blocking' });
+      transition(review, 'revoke_approval', note.trim());
+      delete review.approvedDirectly;
+      delete review.passThrough;
+      delete review.approval;
+      review.approvalRevoked = { revokedAt: Date.now(), note: note.trim(), commentId };
+    });
+    logger.info(`Reopened approved review ${reviewId}, changes requested`);
+    return review;
+  }
+
+  // 审核者拒绝整个计划：进入终态，Agent 应放弃该计划并等待新的指示
+  async rejectReview(reviewId: string, reason?: string): Promise<Review> {
+    const review = await this.modifyReview(reviewId, 'Reject review', review => {
+      transition(review, 'reject', reason?.trim() || undefined);
+      delete review.pendingMerge;
+      if (reason?.trim()) {
+        review.rejectionReason = reason.trim();
+      }
+    });
+    logger.info(`Rejected review ${reviewId}`);
     return review;
   }
 
@@ -470,115 +647,217 @@ export class ReviewManager {
       options?: string[];
     }>
   ): Promise<Review> {
-    const review = await this.getReview(reviewId);
-    if (!review) {
-        logger.error(`Ask questions failed: Review ${reviewId} not found`);
-        throw new Error('Review not found');
-    }
-
-    // 验证状态
-    if (review.status !== 'changes_requested') {
-        logger.error(`Ask questions failed: Invalid status ${review.status}, expected changes_requested`);
-        throw new Error(`Cannot ask questions from status: ${review.status}`);
-    }
+    const review = await this.modifyReview(reviewId, 'Ask questions', review => {
+      assertTransition(review, 'ask_questions');
 
-    // 验证所有 comments 都被覆盖
-    const unresolvedCommentIds = review.comments.filter(c => !c.resolved).map(c => c.id);
-    const questionCommentIds = questions.map(q => q.commentId);
-    const missingComments = unresolvedCommentIds.filter(id => !questionCommentIds.includes(id));
+      // 验证所有 comments 都被覆盖
+      const unresolvedCommentIds = review.comments.filter(c => !c.resolved).map(c => c.id);
+      const questionCommentIds = questions.map(q => q.commentId);
+      const missingComments = unresolvedCommentIds.filter(id => !questionCommentIds.includes(id));
 
-    if (missingComments.length > 0) {
+      if (missingComments.length > 0) {
         logger.error(`Ask questions failed: Missing questions for comments: ${missingComments.join(', ')}`);
         throw new Error(`Must provide questions for all unresolved comments. Missing: ${missingComments.join(', ')}`);
-    }
-
-    // 应用 questions 到 comments
-    for (const q of questions) {
-      const comment = review.comments.find(c => c.id === q.commentId);
-      if (!comment) {
-        logger.warn(`Ask questions: Comment ${q.commentId} not found, skipping`);
-        continue;
       }
 
-      comment.question = {
-        type: q.type,
-        message: q.message,
-        options: q.options
-      };
+      // 应用 questions 到 comments
+      for (const q of questions) {
+        const comment = review.comments.find(c => c.id === q.commentId);
+        if (!comment) {
+          logger.warn(`Ask questions: Comment ${q.commentId} not found, skipping`);
+          continue;
+        }
+
+        const question: CommentQuestion = {
+          type: q.type,
+          message: q.message,
+          options: q.options
+        };
+        comment.thread.push({
+          id: randomUUID(),
+          author: 'agent',
+          createdAt: Date.now(),
+          body: q.message,
+          question,
+          documentVersion: review.currentVersion
+        });
 
-      // 如果是 accepted 类型，直接标记为已解决
-      if (q.type === 'accepted') {
-        comment.resolved = true;
-        comment.resolvedAt = Date.now();
-        comment.resolution = q.message;
+        // 开始新一轮问答
+        comment.question = question;
+        comment.answer = undefined;
+        logActivity(review, 'agent', 'question_asked', { commentId: comment.id, detail: q.type });
+
+        // 如果是 accepted 类型，直接标记为已解决
+        if (q.type === 'accepted') {
+          comment.resolved = true;
+          comment.resolvedAt = Date.now();
+          comment.resolution = q.message;
+          comment.resolvedBy = 'agent';
+          logActivity(review, 'agent', 'comment_resolved', { commentId: comment.id, detail: q.message });
+        }
       }
-    }
 
-    review.status = 'discussing';
-    await this._save(review);
+      transition(review, 'ask_questions');
+    });
     logger.info(`Asked questions for review ${reviewId}, ${questions.length} questions`);
     return review;
   }
 
   // 用户回答 question
   async answerQuestion(reviewId: string, commentId: string, answer: string): Promise<Comment | undefined> {
-    const review = await this.getReview(reviewId);
-    if (!review) {
-        logger.error(`Answer question failed: Review ${reviewId} not found`);
-        throw new Error('Review not found');
-    }
+    let answered = false;
+    const review = await this.modifyReview(reviewId, 'Answer question', review => {
+      const comment = review.comments.find(c => c.id === commentId);
+      if (!comment) {
+        logger.warn(`Answer question: Comment ${commentId} not found`);
+        return false;
+      }
 
-    const comment = review.comments.find(c => c.id === commentId);
-    if (!comment) {
-      logger.warn(`Answer question: Comment ${commentId} not found`);
-      return undefined;
-    }
+      if (!comment.question) {
+        logger.warn(`Answer question: Comment ${commentId} has no question`);
+        return false;
+      }
 
-    if (!comment.question) {
-      logger.warn(`Answer question: Comment ${commentId} has no question`);
-      return undefined;
-    }
+      // 本轮已回答过（提交前修改回答）时更新回答，否则追加到讨论串
+      const last = comment.thread[comment.thread.length - 1];
+      if (last?.author === 'reviewer' && comment.answer !== undefined) {
+        last.body = answer;
+        last.createdAt = Date.now();
+      } else {
+        comment.thread.push({
+          id: randomUUID(),
+          author: 'reviewer',
+          createdAt: Date.now(),
+          body: answer,
+          documentVersion: review.currentVersion
+        });
+      }
 
-    comment.answer = answer;
-    await this._save(review);
+      comment.answer = answer;
+      answered = true;
+      logActivity(review, 'reviewer', 'question_answered', { commentId });
+    });
+
+    if (!answered) return undefined;
     logger.info(`Answered question for comment ${commentId} in review ${reviewId}`);
-    return comment;
+    return review.comments.find(c => c.id === commentId);
   }
 
   // 更新 Plan 内容并创建新版本
+  // Agent 的修订基于它的上一个版本，若之后有人工修改则进行三方合并，存在冲突时暂存等待审核者解决
   async updatePlanContent(
     reviewId: string,
     newContent: string,
-    options?: {
-      changeDescription?: string;
-      author?: 'human' | 'agent';
-      resolvedComments?: Array<{
-        commentId: string;
-        resolution: string;
-      }>;
-      autoResolveAll?: boolean;  // 自动 resolve 所有未解决的评论
-    }
+    options?: PlanUpdateOptions
   ): Promise<Review> {
-    const review = await this.getReview(reviewId);
-    if (!review) {
-        logger.error(`Update plan failed: Review ${reviewId} not found`);
-        throw new Error('Review not found');
-    }
+    const review = await this.modifyReview(reviewId, 'Update plan', review => {
+      if (options?.baseVersion && options.baseVersion !== review.currentVersion) {
+        logger.error(`Update plan failed: Base version ${options.baseVersion} is not current version ${review.currentVersion}`);
+        throw new Error('Plan has changed since the edit was made');
+      }
+
+      if (review.pendingMerge) {
+        logger.error(`Update plan failed: Review ${reviewId} has unresolved merge conflicts`);
+        throw new Error('Resolve merge conflicts before updating the plan');
+      }
+
+      // Agent 提交新版本时验证状态
+      if (options?.author === 'agent') {
+        assertTransition(review, revisionTransition(review));
+        // 留在 Plan Mode 的批准之后必须提交修改过的计划，否则不会进入新一轮审核，Agent 会反复收到同样的结果
+        if (review.status === 'approved' && this.calculateContentHash(newContent) === review.currentVersion) {
+          throw new Error('No changes since approval: refine the plan before submitting it again');
+        }
+        if (options.session) {
+          review.session = options.session;
+        }
+      }
+
+      if (options?.author !== 'agent') {
+        return this.commitVersion(review, newContent, options);
+      }
+
+      const base = this.findAgentBaseVersion(review);
+      if (!base || base.versionHash === review.currentVersion) {
+        return this.commitVersion(review, newContent, options);
+      }
 
-    // Agent 提交新版本时验证状态
-    if (options?.author === 'agent' && review.status !== 'changes_requested') {
-        logger.error(`Update plan failed: Agent can only update when status is changes_requested, current: ${review.status}`);
-        throw new Error(`Agent cannot update plan from status: ${review.status}`);
+      // 当前版本包含 Agent 未见过的人工修改
+      const segments = mergeThreeWay(base.content, review.planContent, newContent);
+      if (hasConflicts(segments)) {
+        review.pendingMerge = {
+          baseVersion: base.versionHash,
+          headVersion: review.currentVersion,
+          agentContent: newContent,
+          segments,
+          changeDescription: options.changeDescription,
+          resolvedComments: options.resolvedComments,
+          createdAt: Date.now()
+        };
+        const conflictCount = segments.filter(s => s.type === 'conflict').length;
+        logActivity(review, 'agent', 'merge_pending', { from: review.currentVersion, detail: `${conflictCount} conflicts` });
+        this.submitRevision(review);
+        logger.info(`Agent revision for review ${reviewId} conflicts with reviewer edits (${conflictCount} conflicts), waiting for resolution`);
+        return;
+      }
+
+      logger.info(`Merged agent revision with reviewer edits for review ${reviewId}`);
+      return this.commitVersion(review, buildMergedContent(segments), {
+        ...options,
+        changeDescription: `${options.changeDescription ?? 'Agent revision'} (merged with reviewer edits)`
+      });
+    });
+    return review;
+  }
+
+  // 审核者解决合并冲突后，合并结果成为 Agent 修订的新版本
+  async resolveMerge(reviewId: string, resolutions: Record<string, string>): Promise<Review> {
+    const review = await this.modifyReview(reviewId, 'Resolve merge', review => {
+      const pending = review.pendingMerge;
+      if (!pending) {
+        throw new Error('No pending merge for this review');
+      }
+      if (pending.headVersion !== review.currentVersion) {
+        throw new Error('Plan has changed since the merge was started');
+      }
+
+      const content = buildMergedContent(pending.segments, resolutions);
+      delete review.pendingMerge;
+      logActivity(review, 'reviewer', 'merge_resolved', { from: pending.headVersion });
+      this.commitVersion(review, content, {
+        author: 'agent',
+        changeDescription: `${pending.changeDescription ?? 'Agent revision'} (merge conflicts resolved by reviewer)`,
+        resolvedComments: pending.resolvedComments
+      });
+    });
+    logger.info(`Resolved merge conflicts for review ${reviewId}`);
+    return review;
+  }
+
+  // Agent 最近一次提交的版本（首个版本视为 Agent 提交）
+  private findAgentBaseVersion(review: Review): DocumentVersion | undefined {
+    for (let i = review.documentVersions.length - 1; i >= 0; i--) {
+      if (review.documentVersions[i].author !== 'human') {
+        return review.documentVersions[i];
+      }
     }
+    return undefined;
+  }
 
+  // 在 review 上创建新版本，内容未变化时返回 false
+  private commitVersion(review: Review, newContent: string, options?: PlanUpdateOptions): false | void {
     const newVersionHash = this.calculateContentHash(newContent);
 
     // 如果内容没有变化，直接返回
     if (newVersionHash === review.currentVersion) {
-      logger.debug(`Plan content unchanged for review ${reviewId}`);
-      return review;
+      logger.debug(`Plan content unchanged for review ${review.id}`);
+      return false;
     }
 
+    const previousVersion = review.currentVersion;
+    const previousContent = review.planContent;
+    const changes = computeTextChanges(previousContent, newContent);
+
     // 创建新版本
     const newVersion: DocumentVersion = {
       versionHash: newVersionHash,
@@ -586,24 +865,62 @@ export class ReviewManager {
       createdAt: Date.now(),
       changeDescription: options?.changeDescription,
       author: options?.author || 'agent',
-      previousVersion: review.currentVersion
+      previousVersion,
+      changes
     };
 
     review.documentVersions.push(newVersion);
     review.currentVersion = newVersionHash;
     review.planContent = newContent;
 
-    // Agent 提交修订版本时，自动 resolve 所有未解决的评论
-    if (options?.author === 'agent' || options?.autoResolveAll) {
+    const byAgent = options?.author === 'agent';
+
+    // 标题被修改或删除的章节不再保留审核状态；
+    // Agent 修订后"需要修改"的标记视为已处理，由审核者重新审阅，已批准和范围外的标记保留
+    if (review.sectionReviews) {
+      const keys = new Set(listPlanSections(newContent).map(s => s.key));
+      review.sectionReviews = review.sectionReviews.filter(s =>
+        keys.has(s.key) && !(byAgent && s.status === 'changes_requested'));
+    }
+    logActivity(review, newVersion.author === 'human' ? 'reviewer' : 'agent', 'version_created', {
+      from: previousVersion,
+      to: newVersionHash,
+      detail: options?.changeDescription
+    });
+
+    // 迁移前记录引用区间在新版本中的映射（用于复核时定位变更）
+    const mappedAnchors = new Map<string, ReturnType<typeof mapRange>>();
+    for (const comment of review.comments) {
+      if (comment.documentVersion === previousVersion && comment.quote && comment.positionStatus !== 'stale') {
+        mappedAnchors.set(comment.id, mapRange(comment.position.startOffset, comment.position.endOffset, changes));
+      }
+    }
+
+    // 将评论位置迁移到新版本
+    this.adjustCommentPositions(review, previousVersion, previousContent, changes);
+
+    const resolve = (comment: Comment, resolution: string) => {
+      comment.resolved = true;
+      comment.resolvedAt = Date.now();
+      comment.resolvedInVersion = newVersionHash;
+      comment.resolution = resolution;
+      comment.resolvedBy = byAgent ? 'agent' : 'reviewer';
+      logActivity(review, byAgent ? 'agent' : 'reviewer', 'comment_resolved', { commentId: comment.id, to: newVersionHash, detail: resolution });
+      if (byAgent) {
+        comment.verification = this.buildVerification(review, comment, previousVersion, mappedAnchors.get(comment.id));
+      } else {
+        delete comment.verification;
+      }
+    };
+
+    // Agent 提交修订版本时，未解决的评论标记为已处理，等待审核者确认或重新打开
+    if (byAgent || options?.autoResolveAll) {
       const unresolvedComments = review.comments.filter(c => !c.resolved);
       for (const comment of unresolvedComments) {
-        comment.resolved = true;
-        comment.resolvedAt = Date.now();
-        comment.resolvedInVersion = newVersionHash;
-        comment.resolution = '已在修订版本中处理';
+        resolve(comment, '已在修订版本中处理');
       }
       if (unresolvedComments.length > 0) {
-        logger.info(`Auto-resolved ${unresolvedComments.length} comments for review ${reviewId}`);
+        logger.info(`Marked ${unresolvedComments.length} comments as addressed for review ${review.id}`);
       }
     }
 
@@ -612,26 +929,262 @@ export class ReviewManager {
       for (const rc of options.resolvedComments) {
         const comment = review.comments.find(c => c.id === rc.commentId);
         if (comment) {
-          comment.resolved = true;
-          comment.resolvedAt = Date.now();
-          comment.resolvedInVersion = newVersionHash;
-          comment.resolution = rc.resolution;
+          resolve(comment, rc.resolution);
         }
       }
     }
 
     // Agent 更新时自动转为 updated 状态
-    if (options?.author === 'agent' && review.status === 'changes_requested') {
-      review.status = 'updated';
-      logger.info(`Review ${reviewId} status changed to updated`);
+    if (options?.author === 'agent' && canTransition(review, revisionTransition(review))) {
+      this.submitRevision(review);
+      logger.info(`Review ${review.id} status changed to updated`);
     }
 
-    // TODO: 调整评论位置（在 Phase 5 实现）
-    // await this.adjustCommentPositions(review);
+    logger.info(`Updated plan content for review ${review.id}, new version: ${newVersionHash}`);
+  }
 
-    await this._save(review);
-    logger.info(`Updated plan content for review ${reviewId}, new version: ${newVersionHash}`);
-    return review;
+  // Agent 提交修订：留在 Plan Mode 的批准随之失效，等待审核者重新审核
+  private submitRevision(review: Review): void {
+    const name = revisionTransition(review);
+    transition(review, name);
+    if (name === 'continue_planning') {
+      delete review.approvedDirectly;
+      delete review.passThrough;
+      delete review.approval;
+    }
+  }
+
+  private buildVerification(
+    review: Review,
+    comment: Comment,
+    fromVersion: string,
+    mapped: ReturnType<typeof mapRange> | undefined
+  ): CommentVerification {
+    const verification: CommentVerification = {
+      status: 'pending',
+      fromVersion,
+      toVersion: review.currentVersion
+    };
+    if (comment.quote) {
+      // 引用文本在修订前已无法定位时视为被修改
+      verification.anchorChanged = mapped?.intersects ?? true;
+      // 引用文本被改写时使用映射位置
+      const offset = comment.positionStatus !== 'stale' && comment.documentVersion === review.currentVersion
+        ? comment.position.startOffset
+        : mapped?.startOffset;
+      if (offset !== undefined) {
+        verification.line = review.planContent.slice(0, offset).split('\n').length;
+      }
+    }
+    return verification;
+  }
+
+  // 审核者确认 Agent 已处理的评论
+  async confirmComment(reviewId: string, commentId: string): Promise<Comment> {
+    const review = await this.modifyReview(reviewId, 'Confirm comment', review => {
+      const comment = this.findCommentAwaitingVerification(review, commentId);
+      comment.verification!.status = 'confirmed';
+      comment.verification!.reviewedAt = Date.now();
+      logActivity(review, 'reviewer', 'comment_confirmed', { commentId });
+    });
+    logger.info(`Confirmed addressed comment ${commentId} in review ${reviewId}`);
+    return review.comments.find(c => c.id === commentId)!;
+  }
+
+  // 重新打开已解决的评论（包括审核者复核后认为未被真正处理的评论），下次反馈时发回给 Agent
+  async reopenComment(reviewId: string, commentId: string, note?: string): Promise<Comment> {
+    const review = await this.modifyReview(reviewId, 'Reopen comment', review => {
+      if (review.status === 'approved') {
+        throw new Error('Cannot reopen comments on an approved review, reopen the review first');
+      }
+      if (review.status === 'rejected') {
+        throw new Error('Cannot reopen comments on a rejected review');
+      }
+      const comment = review.comments.find(c => c.id === commentId);
+      if (!comment) {
+        throw new Error('Comment not found');
+      }
+      if (!comment.resolved) {
+        throw new Error('Comment is not resolved');
+      }
+
+      const now = Date.now();
+      if (comment.verification) {
+        comment.verification.status = 'reopened';
+        comment.verification.reviewedAt = now;
+      }
+      comment.reopenedAt = now;
+      if (note) {
+        comment.reopenNote = note;
+        comment.thread.push({
+          id: randomUUID(),
+          author: 'reviewer',
+          createdAt: now,
+          body: note,
+          documentVersion: review.currentVersion
+        });
+      } else {
+        delete comment.reopenNote;
+      }
+
+      comment.resolved = false;
+      delete comment.resolvedAt;
+      delete comment.resolvedInVersion;
+      delete comment.resolution;
+      delete comment.resolvedBy;
+      logActivity(review, 'reviewer', 'comment_reopened', { commentId, detail: note });
+    });
+    logger.info(`Reopened comment ${commentId} in review ${reviewId}`);
+    return review.comments.find(c => c.id === commentId)!;
+  }
+
+  private findCommentAwaitingVerification(review: Review, commentId: string): Comment {
+    if (review.status === 'approved' || review.status === 'rejected') {
+      throw new Error(`Cannot verify comments from status: ${review.status}`);
+    }
+    const comment = review.comments.find(c => c.id === commentId);
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+    if (!isAwaitingVerification(comment)) {
+      throw new Error('Comment is not awaiting verification');
+    }
+    return comment;
+  }
+
+  // 应用建议评论：用替换文本替换引用区间，生成人工版本并将评论标记为已解决
+  async applySuggestion(reviewId: string, commentId: string): Promise<Review> {
+    const review = await this.getReview(reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    const comment = review.comments.find(c => c.id === commentId);
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+    if (comment.replacement === undefined) {
+      throw new Error('Comment has no suggested replacement');
+    }
+    if (comment.resolved) {
+      throw new Error('Suggestion is already resolved');
+    }
+    // 引用区间已无法在当前版本中定位时，不能安全替换
+    if (comment.documentVersion !== review.currentVersion || comment.positionStatus === 'stale') {
+      throw new Error('Suggestion is outdated: quoted text is no longer in the current plan');
+    }
+
+    // 区间内容必须与引用原文完全一致，避免替换到错误的位置
+    if (!isSuggestionApplicable(review, comment)) {
+      throw new Error('Suggestion range has changed: it no longer matches the quoted text');
+    }
+    const { startOffset, endOffset } = comment.position;
+    const newContent = review.planContent.slice(0, startOffset)
+      + comment.replacement
+      + review.planContent.slice(endOffset);
+    if (newContent === review.planContent) {
+      throw new Error('Suggestion does not change the plan');
+    }
+
+    const summary = comment.comment.trim().split('\n')[0] || comment.quote.trim().split('\n')[0];
+    const updated = await this.updatePlanContent(reviewId, newContent, {
+      changeDescription: `Applied suggestion: ${summary.length > 60 ? summary.slice(0, 60) + '…' : summary}`,
+      author: 'human',
+      baseVersion: review.currentVersion,
+      resolvedComments: [{ commentId, resolution: '已应用建议' }]
+    });
+
+    logger.info(`Applied suggestion ${commentId} to review ${reviewId}`);
+    return updated;
+  }
+
+  /**
+   * 将锚定在上一版本的评论迁移到当前版本
+   * - 引用区间未被修改：按变更平移，位置移动时标记为 adjusted
+   * - 引用区间被修改：在新内容中查找引用文本（取距离映射位置最近的一处），找到则为 adjusted
+   * - 找不到：标记为 stale，保留在原版本上（PlanViewer 不再高亮）
+   */
+  private adjustCommentPositions(
+    review: Review,
+    previousVersion: string,
+    previousContent: string,
+    changes: DiffChange[]
+  ): void {
+    const content = review.planContent;
+    let adjusted = 0;
+    let stale = 0;
+
+    for (const comment of review.comments) {
+      // 只迁移锚定在上一版本的评论，已失效的评论不再追踪
+      if (comment.documentVersion !== previousVersion) continue;
+
+      // 全局性批注没有位置，直接跟随到新版本
+      if (!comment.quote) {
+        comment.documentVersion = review.currentVersion;
+        continue;
+      }
+
+      const { startOffset, endOffset } = comment.position;
+      const mapped = mapRange(startOffset, endOffset, changes);
+      let newStart: number | null = null;
+      let newEnd = 0;
+
+      if (!mapped.intersects) {
+        newStart = mapped.startOffset;
+        newEnd = mapped.endOffset;
+      } else {
+        // quote 是渲染后的文本，可能与 markdown 源码不同，依次尝试 quote 和原区间的源码
+        const candidates = [comment.quote, previousContent.slice(startOffset, endOffset)];
+        for (const text of candidates) {
+          const found = text ? this.findNearest(content, text, mapped.startOffset) : -1;
+          if (found !== -1) {
+            newStart = found;
+            newEnd = found + text.length;
+            break;
+          }
+        }
+      }
+
+      if (newStart === null) {
+        comment.positionStatus = 'stale';
+        stale++;
+        continue;
+      }
+
+      if (!comment.originalPosition) {
+        comment.originalPosition = { ...comment.position };
+      }
+      if (newStart !== startOffset || newEnd !== endOffset) {
+        comment.positionStatus = 'adjusted';
+        adjusted++;
+      }
+      comment.position = {
+        startOffset: newStart,
+        endOffset: newEnd,
+        ...(comment.position.startLine !== undefined && {
+          startLine: content.slice(0, newStart).split('\n').length,
+          endLine: content.slice(0, newEnd).split('\n').length
+        })
+      };
+      comment.documentVersion = review.currentVersion;
+    }
+
+    if (adjusted > 0 || stale > 0) {
+      logger.info(`Adjusted comment positions for review ${review.id}: ${adjusted} adjusted, ${stale} stale`);
+    }
+  }
+
+  // 查找与 offset 最接近的 text 出现位置，未找到返回 -1
+  private findNearest(content: string, text: string, offset: number): number {
+    let nearest = -1;
+    let idx = content.indexOf(text);
+    while (idx !== -1) {
+      if (nearest === -1 || Math.abs(idx - offset) < Math.abs(nearest - offset)) {
+        nearest = idx;
+      }
+      idx = content.indexOf(text, idx + 1);
+    }
+    return nearest;
   }
 
   // 获取指定版本的文档内容
@@ -656,8 +1209,8 @@ export class ReviewManager {
     }));
   }
 
-  // 计算两个版本之间的差异
-  computeDiff(review: Review, fromHash: string, toHash: string): DiffResult | null {
+  // 计算两个版本之间的差异，context 为每个 hunk 前后保留的未变更行数
+  computeDiff(review: Review, fromHash: string, toHash: string, options?: { context?: number }): DiffResult | null {
     const fromVersion = this.getDocumentVersion(review, fromHash);
     const toVersion = this.getDocumentVersion(review, toHash);
 
@@ -666,78 +1219,72 @@ export class ReviewManager {
       return null;
     }
 
-    const fromLines = fromVersion.content.split('\n');
-    const toLines = toVersion.content.split('\n');
-
-    // 使用简单的 LCS (Longest Common Subsequence) 算法计算 diff
-    const diffLines = this.computeLCSDiff(fromLines, toLines);
+    // Myers diff，修改行附带词级差异
+    const lines = diffLines(fromVersion.content, toVersion.content);
 
     const stats = {
-      additions: diffLines.filter(l => l.type === 'added').length,
-      deletions: diffLines.filter(l => l.type === 'removed').length,
-      unchanged: diffLines.filter(l => l.type === 'unchanged').length
+      additions: lines.filter(l => l.type === 'added').length,
+      deletions: lines.filter(l => l.type === 'removed').length,
+      unchanged: lines.filter(l => l.type === 'unchanged').length
     };
 
     return {
       fromVersion: fromHash,
       toVersion: toHash,
-      lines: diffLines,
+      lines,
+      hunks: groupHunks(lines, options?.context ?? DEFAULT_DIFF_CONTEXT),
       stats
     };
   }
 
-  // LCS diff 算法
-  private computeLCSDiff(oldLines: string[], newLines: string[]): DiffLine[] {
-    const m = oldLines.length;
-    const n = newLines.length;
-
-    // 构建 LCS 表
-    const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+  // 计算两个版本之间的章节级差异
+  computeStructureDiff(review: Review, fromHash: string, toHash: string): StructureDiffResult | null {
+    const fromVersion = this.getDocumentVersion(review, fromHash);
+    const toVersion = this.getDocumentVersion(review, toHash);
 
-    for (let i = 1; i <= m; i++) {
-      for (let j = 1; j <= n; j++) {
-        if (oldLines[i - 1] === newLines[j - 1]) {
-          dp[i][j] = dp[i - 1][j - 1] + 1;
-        } else {
-          dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
-        }
-      }
+    if (!fromVersion || !toVersion) {
+      logger.warn(`computeStructureDiff: Version not found (from: ${fromHash}, to: ${toHash})`);
+      return null;
     }
 
-    // 回溯构建 diff
-    const result: DiffLine[] = [];
-    let i = m, j = n;
-    const temp: DiffLine[] = [];
-
-    while (i > 0 || j > 0) {
-      if (i > 0 && j > 0 && oldLines[i - 1] === newLines[j - 1]) {
-        temp.push({
-          type: 'unchanged',
-          content: oldLines[i - 1],
-          oldLineNumber: i,
-          newLineNumber: j
-        });
-        i--;
-        j--;
-      } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-        temp.push({
-          type: 'added',
-          content: newLines[j - 1],
-          newLineNumber: j
-        });
-        j--;
-      } else {
-        temp.push({
-          type: 'removed',
-          content: oldLines[i - 1],
-          oldLineNumber: i
-        });
-        i--;
+    return {
+      fromVersion: fromHash,
+      toVersion: toHash,
+      ...diffMarkdownStructure(fromVersion.content, toVersion.content)
+    };
+  }
+
+  // 当前版本的章节列表及其审核状态
+  getPlanSections(review: Review): Array<PlanSection & { status?: SectionReviewStatus }> {
+    const reviews = new Map((review.sectionReviews ?? []).map(s => [s.key, s]));
+    return listPlanSections(review.planContent).map(section => ({
+      ...section,
+      status: reviews.get(section.key)?.status
+    }));
+  }
+
+  // 审核者标记章节状态，status 为 null 时清除标记
+  async setSectionStatus(reviewId: string, key: string, status: SectionReviewStatus | null): Promise<Review> {
+    const review = await this.modifyReview(reviewId, 'Set section status', review => {
+      if (!canTransition(review, 'submit_feedback')) {
+        throw new Error(`Cannot review sections from status: ${review.status}`);
       }
-    }
+      const section = listPlanSections(review.planContent).find(s => s.key === key);
+      if (!section) {
+        throw new Error('Section not found');
+      }
+
+      const others = (review.sectionReviews ?? []).filter(s => s.key !== key);
+      const previous = review.sectionReviews?.find(s => s.key === key)?.status;
+      if ((previous ?? null) === status) return false;
 
-    // 反转得到正确顺序
-    return temp.reverse();
+      review.sectionReviews = status
+        ? [...others, { key, heading: section.heading, status, updatedAt: Date.now() }]
+        : others;
+      logActivity(review, 'reviewer', 'section_marked', { from: previous, to: status ?? undefined, detail: key });
+    });
+    logger.info(`Section "${key}" of review ${reviewId} marked as ${status ?? 'unreviewed'}`);
+    return review;
   }
 
   // 回滚到指定版本（创建新版本而非覆盖历史）
@@ -0,0 +1,385 @@
+/**
+ * Review 存储格式的版本管理
+ * 每个持久化的 review 带有 schemaVersion，读取时按迁移链逐级升级到当前版本，
+ * 再使用 zod 校验结构，避免旧数据以不完整的形态进入业务逻辑
+ *
+ * 修改 Review / Comment / DocumentVersion 的持久化字段时：
+ * 1. 递增 CURRENT_SCHEMA_VERSION
+ * 2. 在 MIGRATIONS 中添加从上一版本升级的函数
+ * 3. 同步更新下方的 zod schema
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { z } from 'zod';
+import type {
+  Review,
+  ActivityEntry,
+  ApprovalSettings,
+  SectionReview,
+  ApprovalRevocation,
+  AgentSession,
+  Comment,
+  CommentMessage,
+  CommentVerification,
+  DocumentVersion,
+  TextPosition,
+  DiffChange,
+  CommentQuestion,
+  MergeSegment,
+  PendingMerge
+} from './review-manager.js';
+
+export const CURRENT_SCHEMA_VERSION = 6;
+
+// 没有 schemaVersion 字段的数据视为版本 1
+const LEGACY_SCHEMA_VERSION = 1;
+
+const TextPositionSchema: z.ZodType<TextPosition> = z.object({
+  startOffset: z.number(),
+  endOffset: z.number(),
+  startLine: z.number().optional(),
+  endLine: z.number().optional()
+});
+
+const DiffChangeSchema: z.ZodType<DiffChange> = z.object({
+  type: z.enum(['insert', 'delete', 'modify']),
+  startOffset: z.number(),
+  endOffset: z.number(),
+  oldText: z.string().optional(),
+  newText: z.string().optional()
+});
+
+const DocumentVersionSchema: z.ZodType<DocumentVersion> = z.object({
+  versionHash: z.string(),
+  content: z.string(),
+  createdAt: z.number(),
+  changeDescription: z.string().optional(),
+  author: z.enum(['human', 'agent']).optional(),
+  previousVersion: z.string().optional(),
+  changes: z.array(DiffChangeSchema).optional()
+});
+
+const CommentQuestionSchema: z.ZodType<CommentQuestion> = z.object({
+  type: z.enum(['clarification', 'choice', 'multiChoice', 'accepted']),
+  message: z.string(),
+  options: z.array(z.string()).optional()
+});
+
+const CommentMessageSchema: z.ZodType<CommentMessage> = z.object({
+  id: z.string(),
+  author: z.enum(['reviewer', 'agent']),
+  createdAt: z.number(),
+  body: z.string(),
+  question: CommentQuestionSchema.optional(),
+  documentVersion: z.string()
+});
+
+const MergeSegmentSchema: z.ZodType<MergeSegment> = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), lines: z.array(z.string()) }),
+  z.object({
+    type: z.literal('conflict'),
+    id: z.string(),
+    base: z.array(z.string()),
+    ours: z.array(z.string()),
+    theirs: z.array(z.string())
+  })
+]);
+
+const PendingMergeSchema: z.ZodType<PendingMerge> = z.object({
+  baseVersion: z.string(),
+  headVersion: z.string(),
+  agentContent: z.string(),
+  segments: z.array(MergeSegmentSchema),
+  changeDescription: z.string().optional(),
+  resolvedComments: z.array(z.object({ commentId: z.string(), resolution: z.string() })).optional(),
+  createdAt: z.number()
+});
+
+const CommentVerificationSchema: z.ZodType<CommentVerification> = z.object({
+  status: z.enum(['pending', 'confirmed', 'reopened']),
+  fromVersion: z.string(),
+  toVersion: z.string(),
+  anchorChanged: z.boolean().optional(),
+  line: z.number().optional(),
+  reviewedAt: z.number().optional()
+});
+
+const ActivityEntrySchema: z.ZodType<ActivityEntry> = z.object({
+  id: z.string(),
+  at: z.number(),
+  actor: z.enum(['reviewer', 'agent']),
+  type: z.enum([
+    'review_created',
+    'status_changed',
+    'version_created',
+    'merge_pending',
+    'merge_resolved',
+    'comment_added',
+    'comment_edited',
+    'comment_deleted',
+    'comment_resolved',
+    'comment_confirmed',
+    'comment_reopened',
+    'question_asked',
+    'question_answered',
+    'section_marked'
+  ]),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  commentId: z.string().optional(),
+  detail: z.string().optional()
+});
+
+const ApprovalSettingsSchema: z.ZodType<ApprovalSettings> = z.object({
+  mode: z.enum(['auto_accept', 'manual', 'checkpoint', 'plan']),
+  checkpointSteps: z.number().optional()
+});
+
+const SectionReviewSchema: z.ZodType<SectionReview> = z.object({
+  key: z.string(),
+  heading: z.string(),
+  status: z.enum(['approved', 'changes_requested', 'out_of_scope']),
+  updatedAt: z.number()
+});
+
+const AgentSessionSchema: z.ZodType<AgentSession> = z.object({
+  sessionId: z.string(),
+  toolUseId: z.string().optional(),
+  transcriptPath: z.string().optional()
+});
+
+const ApprovalRevocationSchema: z.ZodType<ApprovalRevocation> = z.object({
+  revokedAt: z.number(),
+  note: z.string(),
+  commentId: z.string()
+});
+
+// passthrough 保留未知字段，较新版本写入的数据被旧版本读写时不会丢失
+const CommentSchema: z.ZodType<Comment, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  createdAt: z.number(),
+  quote: z.string(),
+  comment: z.string(),
+  severity: z.enum(['blocking', 'suggestion', 'nit', 'question']),
+  replacement: z.string().optional(),
+  position: TextPositionSchema,
+  documentVersion: z.string(),
+  originalPosition: TextPositionSchema.optional(),
+  positionStatus: z.enum(['valid', 'adjusted', 'stale']),
+  thread: z.array(CommentMessageSchema),
+  question: CommentQuestionSchema.optional(),
+  answer: z.string().optional(),
+  resolved: z.boolean(),
+  resolvedAt: z.number().optional(),
+  resolvedInVersion: z.string().optional(),
+  resolution: z.string().optional(),
+  resolvedBy: z.enum(['reviewer', 'agent']).optional(),
+  verification: CommentVerificationSchema.optional(),
+  reopenedAt: z.number().optional(),
+  reopenNote: z.string().optional()
+}).passthrough();
+
+const ReviewSchema: z.ZodType<Review, z.ZodTypeDef, unknown> = z.object({
+  schemaVersion: z.number().int(),
+  id: z.string(),
+  createdAt: z.number(),
+  status: z.enum(['open', 'changes_requested', 'discussing', 'approved', 'rejected', 'updated']),
+  planContent: z.string(),
+  comments: z.array(CommentSchema),
+  documentVersions: z.array(DocumentVersionSchema).min(1),
+  currentVersion: z.string(),
+  projectPath: z.string().optional(),
+  source: z.enum(['exit_plan_mode', 'mcp_tool']).optional(),
+  session: AgentSessionSchema.optional(),
+  approvedDirectly: z.boolean().optional(),
+  approvalNote: z.string().optional(),
+  passThrough: z.boolean().optional(),
+  approval: ApprovalSettingsSchema.optional(),
+  pendingMerge: PendingMergeSchema.optional(),
+  approvalRevoked: ApprovalRevocationSchema.optional(),
+  rejectionReason: z.string().optional(),
+  sectionReviews: z.array(SectionReviewSchema).optional(),
+  activity: z.array(ActivityEntrySchema)
+}).passthrough();
+
+type RawReview = Record<string, any>;
+
+// 迁移函数：key 为源版本，将数据升级到 key + 1 版本
+const MIGRATIONS: Record<number, (raw: RawReview) => RawReview> = {
+  /**
+   * v1 -> v2
+   * 早期数据没有版本历史，评论也没有位置追踪字段
+   */
+  1: (raw) => {
+    const planContent = typeof raw.planContent === 'string' ? raw.planContent : '';
+    const createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : Date.now();
+
+    let documentVersions: RawReview[] = Array.isArray(raw.documentVersions) ? raw.documentVersions : [];
+    if (documentVersions.length === 0) {
+      documentVersions = [{
+        versionHash: createHash('sha256').update(planContent, 'utf-8').digest('hex'),
+        content: planContent,
+        createdAt
+      }];
+    }
+    const currentVersion = typeof raw.currentVersion === 'string'
+      ? raw.currentVersion
+      : documentVersions[documentVersions.length - 1].versionHash;
+
+    const comments = (Array.isArray(raw.comments) ? raw.comments : []).map((c: RawReview) => ({
+      ...c,
+      createdAt: typeof c.createdAt === 'number' ? c.createdAt : createdAt,
+      quote: c.quote ?? '',
+      comment: c.comment ?? '',
+      position: c.position ?? { startOffset: 0, endOffset: 0 },
+      documentVersion: c.documentVersion ?? currentVersion,
+      // 没有位置信息的旧评论无法定位到原文
+      positionStatus: c.positionStatus ?? (c.position ? 'valid' : 'stale'),
+      resolved: c.resolved ?? false
+    }));
+
+    return {
+      ...raw,
+      createdAt,
+      status: raw.status ?? 'open',
+      planContent,
+      comments,
+      documentVersions,
+      currentVersion
+    };
+  },
+
+  /**
+   * v2 -> v3
+   * 评论只保存一轮问答，转换为讨论串
+   */
+  2: (raw) => ({
+    ...raw,
+    comments: (raw.comments as RawReview[]).map(c => {
+      const thread: RawReview[] = [];
+      if (c.question) {
+        thread.push({
+          id: randomUUID(),
+          author: 'agent',
+          createdAt: c.createdAt,
+          body: c.question.message ?? '',
+          question: c.question,
+          documentVersion: c.documentVersion
+        });
+        if (c.answer !== undefined) {
+          thread.push({
+            id: randomUUID(),
+            author: 'reviewer',
+            createdAt: c.createdAt,
+            body: c.answer,
+            documentVersion: c.documentVersion
+          });
+        }
+      }
+      return { ...c, thread };
+    })
+  }),
+
+  /**
+   * v3 -> v4
+   * 引入评论严重程度，此前所有未解决评论都会阻止批准
+   */
+  3: (raw) => ({
+    ...raw,
+    comments: (raw.comments as RawReview[]).map(c => ({ ...c, severity: 'blocking' }))
+  }),
+
+  /**
+   * v4 -> v5
+   * 引入活动日志，按已有数据补出创建和版本记录（更早的状态变更无法还原）
+   */
+  4: (raw) => {
+    const versions = raw.documentVersions as RawReview[];
+    const activity: RawReview[] = [{
+      id: randomUUID(),
+      at: raw.createdAt,
+      actor: 'agent',
+      type: 'review_created',
+      to: versions[0].versionHash
+    }];
+    for (let i = 1; i < versions.length; i++) {
+      activity.push({
+        id: randomUUID(),
+        at: versions[i].createdAt,
+        actor: versions[i].author === 'human' ? 'reviewer' : 'agent',
+        type: 'version_created',
+        from: versions[i - 1].versionHash,
+        to: versions[i].versionHash,
+        ...(versions[i].changeDescription ? { detail: versions[i].changeDescription } : {})
+      });
+    }
+    return { ...raw, activity };
+  },
+
+  /**
+   * v5 -> v6
+   * 记录评论由谁解决：按活动日志中最近的解决记录推断，没有记录时按解决所在版本的作者推断
+   */
+  5: (raw) => {
+    const versions = raw.documentVersions as RawReview[];
+    const activity = raw.activity as RawReview[];
+    return {
+      ...raw,
+      comments: (raw.comments as RawReview[]).map(c => {
+        if (!c.resolved) return c;
+        const entry = activity.filter(a => a.type === 'comment_resolved' && a.commentId === c.id).pop();
+        const version = versions.find(v => v.versionHash === c.resolvedInVersion);
+        const resolvedBy = entry?.actor ?? (version?.author === 'human' ? 'reviewer' : 'agent');
+        return { ...c, resolvedBy };
+      })
+    };
+  }
+};
+
+export interface ParsedReview {
+  review: Review;
+  migrated: boolean;   // 是否经过迁移（需要写回存储）
+}
+
+/**
+ * 解析存储中读取的 review 数据：逐级迁移到当前版本并校验结构
+ * 数据无效时抛出异常
+ */
+export function parseStoredReview(raw: unknown): ParsedReview {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Review data is not an object');
+  }
+
+  let data = raw as RawReview;
+  const fromVersion: number = typeof data.schemaVersion === 'number' ? data.schemaVersion : LEGACY_SCHEMA_VERSION;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    // 由较新版本写入，按当前版本的结构尽量读取
+    const result = ReviewSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(`Review schema v${fromVersion} is newer than supported v${CURRENT_SCHEMA_VERSION}: ${formatIssues(result.error)}`);
+    }
+    return { review: result.data, migrated: false };
+  }
+
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from review schema v${version}`);
+    }
+    data = { ...migrate(data), schemaVersion: version + 1 };
+  }
+
+  const result = ReviewSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid review schema v${CURRENT_SCHEMA_VERSION}: ${formatIssues(result.error)}`);
+  }
+  return { review: result.data, migrated: fromVersion !== CURRENT_SCHEMA_VERSION };
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
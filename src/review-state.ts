@@ -0,0 +1,81 @@
+/**
+ * Review 状态机与活动日志
+ * - 所有状态变更都通过 transition() 按转换表校验，不在各业务方法中各自判断
+ * - 状态变更、评论和版本的修改都追加到 review.activity，随 review 一起持久化
+ */
+
+import { randomUUID } from 'crypto';
+import type { Review, ReviewStatus, ActivityActor, ActivityEntry } from './review-manager.js';
+
+export type ReviewTransition =
+  | 'submit_feedback'   // 审核者提交反馈，请求修改
+  | 'approve'           // 审核者批准
+  | 'reject'            // 审核者拒绝整个计划
+  | 'revoke_approval'   // 审核者撤回批准
+  | 'ask_questions'     // Agent 针对评论提问
+  | 'submit_revision'   // Agent 提交修订版本
+  | 'continue_planning'; // 审核者选择留在 Plan Mode 后，Agent 提交完善后的版本
+
+interface TransitionRule {
+  from: ReviewStatus[];
+  to: ReviewStatus;
+  actor: ActivityActor;
+  label: string;        // 用于错误信息
+  guard?: (review: Review) => boolean;  // 状态之外的附加条件
+}
+
+// 状态转换表
+export const REVIEW_TRANSITIONS: Record<ReviewTransition, TransitionRule> = {
+  submit_feedback: { from: ['open', 'updated', 'discussing'], to: 'changes_requested', actor: 'reviewer', label: 'submit feedback' },
+  approve: { from: ['open', 'updated', 'discussing'], to: 'approved', actor: 'reviewer', label: 'approve' },
+  reject: { from: ['open', 'updated', 'discussing', 'changes_requested'], to: 'rejected', actor: 'reviewer', label: 'reject' },
+  revoke_approval: { from: ['approved'], to: 'changes_requested', actor: 'reviewer', label: 'reopen review' },
+  ask_questions: { from: ['changes_requested'], to: 'discussing', actor: 'agent', label: 'ask questions' },
+  submit_revision: { from: ['changes_requested'], to: 'updated', actor: 'agent', label: 'submit a revision' },
+  continue_planning: {
+    from: ['approved'], to: 'updated', actor: 'agent', label: 'submit a revision',
+    guard: review => review.approval?.mode === 'plan'
+  }
+};
+
+export function canTransition(review: Review, transition: ReviewTransition): boolean {
+  const rule = REVIEW_TRANSITIONS[transition];
+  return rule.from.includes(review.status) && (rule.guard?.(review) ?? true);
+}
+
+// Agent 提交修订时使用的转换：留在 Plan Mode 的批准不是终态，下一次提交视为继续完善
+export function revisionTransition(review: Review): ReviewTransition {
+  return review.status === 'approved' ? 'continue_planning' : 'submit_revision';
+}
+
+// 校验转换是否允许，不修改状态（用于需要先做其他校验的场景）
+export function assertTransition(review: Review, transition: ReviewTransition): void {
+  if (!canTransition(review, transition)) {
+    throw new Error(`Cannot ${REVIEW_TRANSITIONS[transition].label} from status: ${review.status}`);
+  }
+}
+
+// 执行状态转换并记录到活动日志，不允许时抛出异常
+export function transition(review: Review, name: ReviewTransition, detail?: string): void {
+  assertTransition(review, name);
+  const rule = REVIEW_TRANSITIONS[name];
+  const from = review.status;
+  review.status = rule.to;
+  logActivity(review, rule.actor, 'status_changed', { from, to: rule.to, detail });
+}
+
+// 追加一条活动记录
+export function logActivity(
+  review: Review,
+  actor: ActivityActor,
+  type: ActivityEntry['type'],
+  fields?: Omit<ActivityEntry, 'id' | 'at' | 'actor' | 'type'>
+): void {
+  review.activity.push({
+    id: randomUUID(),
+    at: Date.now(),
+    actor,
+    type,
+    ...fields
+  });
+}
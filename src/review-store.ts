@@ -0,0 +1,93 @@
+/**
+ * Review 存储抽象
+ * ReviewManager 只通过 ReviewStore 接口读写 review，具体后端由配置决定：
+ * - file:   每个 review 一个 JSON 文件（默认）
+ * - sqlite: 内嵌 SQLite 数据库，适合 review 数量较多的场景
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { logger } from './logger.js';
+import { configManager, type StorageBackend, type StorageSettings } from './config-manager.js';
+import { FileReviewStore } from './file-review-store.js';
+import { SqliteReviewStore } from './sqlite-review-store.js';
+import type { Review } from './review-manager.js';
+
+// 全局数据目录，与 Claude Code 配置放在一起
+export const BASE_DIR = path.join(os.homedir(), '.claude', 'cc-plan-review');
+export const DATA_DIR = path.join(BASE_DIR, 'reviews');
+export const LOGS_DIR = path.join(BASE_DIR, 'logs');
+export const SQLITE_DB_PATH = path.join(BASE_DIR, 'reviews.db');
+
+// 在锁/事务内修改 review；返回 false 表示没有变更，无需写回
+export type ReviewMutator = (review: Review) => void | false;
+
+export interface ReviewStore {
+  readonly backend: StorageBackend;
+
+  // 初始化存储（创建目录 / 打开数据库）
+  init(): Promise<void>;
+
+  // 保存 review（新建或覆盖）
+  save(review: Review): Promise<void>;
+
+  // 原子地读取-修改-写回 review（跨进程互斥），review 不存在时返回 null
+  // mutate 抛出异常时不写回，异常原样抛出
+  update(id: string, mutate: ReviewMutator): Promise<Review | null>;
+
+  // 按 ID 获取 review；指定 projectPath 时只在该项目内查找
+  get(id: string, projectPath?: string): Promise<Review | null>;
+
+  // 获取最近更新的 review；未指定 projectPath 时只查找全局 review
+  getLatest(projectPath?: string): Promise<Review | null>;
+
+  // 获取未完成的 reviews，按创建时间倒序；未指定 projectPath 时返回所有项目
+  listPending(projectPath?: string): Promise<Review[]>;
+
+  // 获取关联到指定 Agent 会话的 reviews，按创建时间倒序
+  listBySession(sessionId: string): Promise<Review[]>;
+
+  // 获取所有有 review 记录的项目路径
+  listProjects(): Promise<string[]>;
+
+  // 获取全部 reviews（用于后端之间的数据迁移）
+  listAll(): Promise<Review[]>;
+
+  // 释放资源
+  close(): Promise<void>;
+}
+
+/**
+ * 根据配置创建存储实例
+ * sqlite 后端不可用时（Node.js < 22.5）回退到 file 后端
+ */
+export async function createReviewStore(settings?: StorageSettings): Promise<ReviewStore> {
+  const { backend } = settings ?? await configManager.getStorageSettings();
+  await fs.mkdir(LOGS_DIR, { recursive: true });
+
+  const fileStore = new FileReviewStore(DATA_DIR);
+
+  if (backend === 'sqlite') {
+    const sqliteStore = new SqliteReviewStore(SQLITE_DB_PATH);
+    try {
+      await sqliteStore.init();
+      // 首次启用 sqlite 时导入已有的 JSON 文件
+      if (await sqliteStore.isEmpty()) {
+        await fileStore.init();
+        const imported = await sqliteStore.importReviews(await fileStore.listAll());
+        if (imported > 0) {
+          logger.info(`Imported ${imported} reviews from ${DATA_DIR} into ${SQLITE_DB_PATH}`);
+        }
+      }
+      logger.info(`Using sqlite review store at ${SQLITE_DB_PATH}`);
+      return sqliteStore;
+    } catch (e) {
+      logger.error(`Failed to open sqlite review store, falling back to file store: ${(e as Error).message}`);
+    }
+  }
+
+  await fileStore.init();
+  logger.info(`Using file review store at ${DATA_DIR}`);
+  return fileStore;
+}
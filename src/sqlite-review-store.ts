@@ -0,0 +1,224 @@
+/**
+ * 基于 SQLite 的 Review 存储
+ * 使用 Node.js 内置的 node:sqlite（Node.js >= 22.5），无需额外的原生依赖
+ * review 以 JSON 形式存储在 data 列，常用查询字段单独成列并建立索引
+ * 旧版本格式的记录在读取时迁移到当前 schema 并写回（见 review-schema.ts）
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+import { logger } from './logger.js';
+import type { Review } from './review-manager.js';
+import type { ReviewStore, ReviewMutator } from './review-store.js';
+import { parseStoredReview } from './review-schema.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS reviews (
+    id           TEXT PRIMARY KEY,
+    project_path TEXT,
+    status       TEXT NOT NULL,
+    created_at   INTEGER NOT NULL,
+    updated_at   INTEGER NOT NULL,
+    data         TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_reviews_project_status ON reviews (project_path, status, created_at);
+  CREATE INDEX IF NOT EXISTS idx_reviews_project_updated ON reviews (project_path, updated_at);
+`;
+
+interface ReviewRow {
+  data: string;
+}
+
+export class SqliteReviewStore implements ReviewStore {
+  readonly backend = 'sqlite' as const;
+  private dbPath: string;
+  private db: DatabaseSync | null = null;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  async init(): Promise<void> {
+    if (this.db) return;
+    await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+
+    // 延迟加载，旧版本 Node.js 上只有选择 sqlite 后端时才会失败
+    const { DatabaseSync } = await import('node:sqlite');
+    const db = new DatabaseSync(this.dbPath);
+    // hook 拉起的 http-only server 与 stdio server 可能同时访问数据库
+    db.exec('PRAGMA journal_mode = WAL');
+    db.exec('PRAGMA busy_timeout = 5000');
+    db.exec(SCHEMA);
+    this.db = db;
+    logger.info(`SQLite database opened at ${this.dbPath}`);
+  }
+
+  private getDb(): DatabaseSync {
+    if (!this.db) {
+      throw new Error('SQLite review store is not initialized');
+    }
+    return this.db;
+  }
+
+  async save(review: Review): Promise<void> {
+    this.upsert(review);
+    logger.debug(`Saved review ${review.id} to ${this.dbPath}`);
+  }
+
+  async update(id: string, mutate: ReviewMutator): Promise<Review | null> {
+    const db = this.getDb();
+    // IMMEDIATE 事务在读取前即获取写锁，其他进程的修改会等待（busy_timeout）
+    db.exec('BEGIN IMMEDIATE');
+    let committed = false;
+    try {
+      const row = db.prepare('SELECT data FROM reviews WHERE id = ?').get(id);
+      const review = row ? this.parseRow(row as unknown as ReviewRow) : null;
+      if (!review || mutate(review) === false) {
+        return review;
+      }
+
+      this.upsert(review);
+      db.exec('COMMIT');
+      committed = true;
+      logger.debug(`Updated review ${id} in ${this.dbPath}`);
+      return review;
+    } finally {
+      // 未找到、无变更或 mutate 抛出异常时回滚
+      if (!committed) {
+        db.exec('ROLLBACK');
+      }
+    }
+  }
+
+  private upsert(review: Review): void {
+    this.getDb().prepare(`
+      INSERT INTO reviews (id, project_path, status, created_at, updated_at, data)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        project_path = excluded.project_path,
+        status = excluded.status,
+        updated_at = excluded.updated_at,
+        data = excluded.data
+    `).run(
+      review.id,
+      review.projectPath ?? null,
+      review.status,
+      review.createdAt,
+      Date.now(),
+      JSON.stringify(review)
+    );
+  }
+
+  async get(id: string, projectPath?: string): Promise<Review | null> {
+    const row = projectPath
+      ? this.getDb().prepare('SELECT data FROM reviews WHERE id = ? AND project_path = ?').get(id, projectPath)
+      : this.getDb().prepare('SELECT data FROM reviews WHERE id = ?').get(id);
+
+    if (!row) {
+      logger.warn(`Failed to load review ${id}: not found in ${this.dbPath}`);
+      return null;
+    }
+    return this.parseRow(row as unknown as ReviewRow);
+  }
+
+  async getLatest(projectPath?: string): Promise<Review | null> {
+    const row = this.getDb().prepare(
+      'SELECT data FROM reviews WHERE project_path IS ? ORDER BY updated_at DESC LIMIT 1'
+    ).get(projectPath ?? null);
+    return row ? this.parseRow(row as unknown as ReviewRow) : null;
+  }
+
+  async listPending(projectPath?: string): Promise<Review[]> {
+    const rows = projectPath
+      ? this.getDb().prepare(
+          "SELECT data FROM reviews WHERE project_path = ? AND status NOT IN ('approved', 'rejected') ORDER BY created_at DESC"
+        ).all(projectPath)
+      : this.getDb().prepare(
+          "SELECT data FROM reviews WHERE status NOT IN ('approved', 'rejected') ORDER BY created_at DESC"
+        ).all();
+    return this.parseRows(rows as unknown as ReviewRow[]);
+  }
+
+  async listBySession(sessionId: string): Promise<Review[]> {
+    const rows = this.getDb().prepare(
+      "SELECT data FROM reviews WHERE json_extract(data, '$.session.sessionId') = ? ORDER BY created_at DESC"
+    ).all(sessionId);
+    return this.parseRows(rows as unknown as ReviewRow[]);
+  }
+
+  async listAll(): Promise<Review[]> {
+    const rows = this.getDb().prepare('SELECT data FROM reviews ORDER BY created_at DESC').all();
+    return this.parseRows(rows as unknown as ReviewRow[]);
+  }
+
+  async listProjects(): Promise<string[]> {
+    const rows = this.getDb().prepare(
+      'SELECT DISTINCT project_path FROM reviews WHERE project_path IS NOT NULL ORDER BY project_path'
+    ).all() as Array<{ project_path: string }>;
+    return rows.map(row => row.project_path);
+  }
+
+  async isEmpty(): Promise<boolean> {
+    const row = this.getDb().prepare('SELECT COUNT(*) AS count FROM reviews').get() as { count: number };
+    return row.count === 0;
+  }
+
+  // 批量导入 reviews（已存在的 ID 跳过），返回实际导入数量
+  async importReviews(reviews: Review[]): Promise<number> {
+    const db = this.getDb();
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO reviews (id, project_path, status, created_at, updated_at, data)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    let imported = 0;
+    db.exec('BEGIN');
+    try {
+      for (const review of reviews) {
+        const result = insert.run(
+          review.id,
+          review.projectPath ?? null,
+          review.status,
+          review.createdAt,
+          review.createdAt,
+          JSON.stringify(review)
+        );
+        imported += Number(result.changes);
+      }
+      db.exec('COMMIT');
+    } catch (e) {
+      db.exec('ROLLBACK');
+      throw e;
+    }
+    return imported;
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  private parseRow(row: ReviewRow): Review | null {
+    try {
+      const { review, migrated } = parseStoredReview(JSON.parse(row.data));
+      if (migrated) {
+        // 只更新 data 列，不改变 updated_at，避免影响最近 review 的排序
+        this.getDb().prepare('UPDATE reviews SET data = ? WHERE id = ?').run(JSON.stringify(review), review.id);
+        logger.info(`Migrated review ${review.id} to schema v${review.schemaVersion}`);
+      }
+      return review;
+    } catch (e) {
+      logger.warn(`Failed to parse review row: ${(e as Error).message}`);
+      return null;
+    }
+  }
+
+  private parseRows(rows: ReviewRow[]): Review[] {
+    return rows
+      .map(row => this.parseRow(row))
+      .filter((r): r is Review => r !== null);
+  }
+}
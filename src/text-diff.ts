@@ -0,0 +1,360 @@
+/**
+ * 文本差异计算
+ * - diffSequences: Myers O(ND) 差异算法，适用于任意序列
+ * - computeTextChanges: 字符级别的 DiffChange 列表（按单词/字符分词后比较）
+ * - mapRange: 将旧版本中的区间映射到新版本
+ * - diffLines / groupHunks: 行级 diff（含修改行的词级差异）及 hunk 分组
+ */
+
+import type { DiffChange, DiffLine, DiffSpan, DiffHunk } from './review-manager.js';
+
+export type DiffOp =
+  | { type: 'equal'; oldIndex: number; newIndex: number }
+  | { type: 'delete'; oldIndex: number }
+  | { type: 'insert'; newIndex: number };
+
+// 编辑距离超过该值时放弃精确比较（内存占用为 O(D²)）
+const MAX_EDIT_DISTANCE = 2000;
+
+// 单行内词级比较的编辑距离上限
+const MAX_WORD_EDIT_DISTANCE = 200;
+
+// 修改行的相似度低于该值时不做词级高亮（整行都变了，高亮没有意义）
+const MIN_WORD_SIMILARITY = 0.4;
+
+/**
+ * Myers 差异算法
+ * 返回按顺序排列的编辑操作，编辑距离超过 maxEdits 时返回 null
+ */
+export function diffSequences<T>(
+  a: T[],
+  b: T[],
+  maxEdits: number = MAX_EDIT_DISTANCE
+): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] 保存第 d 步开始前 k ∈ [-d-1, d+1] 的 v 值，用于回溯
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, maxEdits); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: 'equal', oldIndex: x, newIndex: y });
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', newIndex: prevY });
+      } else {
+        ops.push({ type: 'delete', oldIndex: prevX });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+// 分词：连续的 ASCII 单词、连续空白各为一个 token，其余（包括中文）逐字符
+function tokenize(text: string): string[] {
+  return text.match(/[A-Za-z0-9_]+|\s+|[\s\S]/g) ?? [];
+}
+
+/**
+ * 计算两段文本之间的字符级变更
+ * 偏移量基于旧文本；相邻的删除和插入合并为一个 modify
+ */
+export function computeTextChanges(oldText: string, newText: string): DiffChange[] {
+  // 先去掉公共前缀和后缀，缩小比较范围
+  let prefix = 0;
+  const minLength = Math.min(oldText.length, newText.length);
+  while (prefix < minLength && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < minLength - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldText.slice(prefix, oldText.length - suffix);
+  const newMiddle = newText.slice(prefix, newText.length - suffix);
+  if (!oldMiddle && !newMiddle) return [];
+
+  const oldTokens = tokenize(oldMiddle);
+  const newTokens = tokenize(newMiddle);
+  const ops = diffSequences(oldTokens, newTokens);
+
+  // 差异过大时整体视为一次修改
+  if (!ops) {
+    return [createChange(prefix, oldMiddle, newMiddle)];
+  }
+
+  const changes: DiffChange[] = [];
+  let oldPos = prefix;
+  let pendingStart = -1;
+  let pendingOld = '';
+  let pendingNew = '';
+
+  const flush = () => {
+    if (pendingStart !== -1) {
+      changes.push(createChange(pendingStart, pendingOld, pendingNew));
+      pendingStart = -1;
+      pendingOld = '';
+      pendingNew = '';
+    }
+  };
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      flush();
+      oldPos += oldTokens[op.oldIndex].length;
+      continue;
+    }
+
+    if (pendingStart === -1) {
+      pendingStart = oldPos;
+    }
+    if (op.type === 'delete') {
+      pendingOld += oldTokens[op.oldIndex];
+      oldPos += oldTokens[op.oldIndex].length;
+    } else {
+      pendingNew += newTokens[op.newIndex];
+    }
+  }
+  flush();
+
+  return changes;
+}
+
+function createChange(startOffset: number, oldText: string, newText: string): DiffChange {
+  return {
+    type: !oldText ? 'insert' : !newText ? 'delete' : 'modify',
+    startOffset,
+    endOffset: startOffset + oldText.length,
+    oldText: oldText || undefined,
+    newText: newText || undefined
+  };
+}
+
+/**
+ * 将旧文本中的区间 [start, end) 映射到新文本
+ * changes 需按 startOffset 升序排列；区间内部有变更时 intersects 为 true
+ */
+export function mapRange(
+  start: number,
+  end: number,
+  changes: DiffChange[]
+): { startOffset: number; endOffset: number; intersects: boolean } {
+  let delta = 0;
+  let endDelta = 0;
+  let intersects = false;
+
+  for (const change of changes) {
+    const lengthDelta = (change.newText?.length ?? 0) - (change.endOffset - change.startOffset);
+
+    if (change.endOffset <= start) {
+      // 变更在区间之前（包括紧贴区间开头的插入）
+      delta += lengthDelta;
+      endDelta += lengthDelta;
+    } else if (change.startOffset >= end) {
+      // 变更在区间之后
+      break;
+    } else {
+      intersects = true;
+      endDelta += lengthDelta;
+    }
+  }
+
+  return {
+    startOffset: start + delta,
+    endOffset: Math.max(start + delta, end + endDelta),
+    intersects
+  };
+}
+
+/**
+ * 行级 diff
+ * 连续的变更块内先输出删除行再输出新增行，一一配对的删除/新增行附带词级差异 spans
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // 差异过大时退化为整体替换
+  const ops = diffSequences(oldLines, newLines) ?? [
+    ...oldLines.map((_, i): DiffOp => ({ type: 'delete', oldIndex: i })),
+    ...newLines.map((_, i): DiffOp => ({ type: 'insert', newIndex: i }))
+  ];
+
+  const result: DiffLine[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    const pairs = Math.min(removed.length, added.length);
+    for (let i = 0; i < pairs; i++) {
+      const spans = computeWordSpans(removed[i].content, added[i].content);
+      if (spans) {
+        removed[i].spans = spans.oldSpans;
+        added[i].spans = spans.newSpans;
+      }
+    }
+    result.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      flush();
+      result.push({
+        type: 'unchanged',
+        content: oldLines[op.oldIndex],
+        oldLineNumber: op.oldIndex + 1,
+        newLineNumber: op.newIndex + 1
+      });
+    } else if (op.type === 'delete') {
+      removed.push({ type: 'removed', content: oldLines[op.oldIndex], oldLineNumber: op.oldIndex + 1 });
+    } else {
+      added.push({ type: 'added', content: newLines[op.newIndex], newLineNumber: op.newIndex + 1 });
+    }
+  }
+  flush();
+
+  return result;
+}
+
+// 计算一对修改行的词级差异，两行差别过大时返回 null
+function computeWordSpans(
+  oldLine: string,
+  newLine: string
+): { oldSpans: DiffSpan[]; newSpans: DiffSpan[] } | null {
+  const oldTokens = tokenize(oldLine);
+  const newTokens = tokenize(newLine);
+  const ops = diffSequences(oldTokens, newTokens, MAX_WORD_EDIT_DISTANCE);
+  if (!ops) return null;
+
+  const oldSpans: DiffSpan[] = [];
+  const newSpans: DiffSpan[] = [];
+  let unchangedLength = 0;
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      const text = oldTokens[op.oldIndex];
+      appendSpan(oldSpans, text, false);
+      appendSpan(newSpans, text, false);
+      unchangedLength += text.length;
+    } else if (op.type === 'delete') {
+      appendSpan(oldSpans, oldTokens[op.oldIndex], true);
+    } else {
+      appendSpan(newSpans, newTokens[op.newIndex], true);
+    }
+  }
+
+  const similarity = (2 * unchangedLength) / (oldLine.length + newLine.length || 1);
+  if (similarity < MIN_WORD_SIMILARITY) return null;
+
+  return { oldSpans, newSpans };
+}
+
+// 追加 span，与前一个同类型的 span 合并
+function appendSpan(spans: DiffSpan[], text: string, changed: boolean): void {
+  const last = spans[spans.length - 1];
+  if (last && last.changed === changed) {
+    last.text += text;
+  } else {
+    spans.push({ text, changed });
+  }
+}
+
+/**
+ * 将 diff 行分组为 hunk，每个 hunk 包含变更行及前后 context 行上下文
+ * 相邻 hunk 的上下文重叠或相接时合并；hunk 之外的未变更行由前端折叠显示
+ */
+export function groupHunks(lines: DiffLine[], context: number): DiffHunk[] {
+  const ranges: Array<[number, number]> = [];
+
+  lines.forEach((line, index) => {
+    if (line.type === 'unchanged') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  // 按 [startIndex, endIndex) 统计新旧行号
+  let index = 0;
+  let oldCount = 0;
+  let newCount = 0;
+
+  return ranges.map(([startIndex, endIndex]) => {
+    for (; index < startIndex; index++) {
+      if (lines[index].oldLineNumber !== undefined) oldCount++;
+      if (lines[index].newLineNumber !== undefined) newCount++;
+    }
+    const oldStart = oldCount + 1;
+    const newStart = newCount + 1;
+    for (; index < endIndex; index++) {
+      if (lines[index].oldLineNumber !== undefined) oldCount++;
+      if (lines[index].newLineNumber !== undefined) newCount++;
+    }
+
+    return {
+      oldStart,
+      oldLines: oldCount - oldStart + 1,
+      newStart,
+      newLines: newCount - newStart + 1,
+      startIndex,
+      endIndex
+    };
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * Markdown 内容的三方合并（按行，diff3）
+ * 以 Agent 的上一个版本为共同祖先，合并审核者的修改（ours）与 Agent 的修订（theirs）：
+ * 只有一方修改的区域直接采用该方的内容，双方以不同方式修改同一区域时产生冲突
+ */
+
+import { randomUUID } from 'crypto';
+import { diffSequences } from './text-diff.js';
+import type { MergeSegment } from './review-manager.js';
+
+// 祖先行号 -> 另一版本中匹配的行号
+function matchLines(base: string[], other: string[]): Array<number | undefined> {
+  const matches: Array<number | undefined> = new Array(base.length);
+  const ops = diffSequences(base, other);
+  // 差异过大时视为没有共同行，整篇作为一个区域处理
+  if (!ops) return matches;
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      matches[op.oldIndex] = op.newIndex;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * 三方合并，返回无冲突文本与冲突交替组成的片段列表
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeSegment[] {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+  const ourMatches = matchLines(baseLines, ourLines);
+  const theirMatches = matchLines(baseLines, theirLines);
+
+  const segments: MergeSegment[] = [];
+  const pushText = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = segments[segments.length - 1];
+    if (last?.type === 'text') {
+      last.lines.push(...lines);
+    } else {
+      segments.push({ type: 'text', lines: [...lines] });
+    }
+  };
+
+  // 处理一个不稳定区域：祖先 [o, oEnd)，ours [a, aEnd)，theirs [b, bEnd)
+  const pushChunk = (o: number, oEnd: number, a: number, aEnd: number, b: number, bEnd: number) => {
+    const baseChunk = baseLines.slice(o, oEnd);
+    const ourChunk = ourLines.slice(a, aEnd);
+    const theirChunk = theirLines.slice(b, bEnd);
+
+    if (sameLines(ourChunk, baseChunk)) {
+      pushText(theirChunk);
+    } else if (sameLines(theirChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      pushText(ourChunk);
+    } else {
+      segments.push({ type: 'conflict', id: randomUUID(), base: baseChunk, ours: ourChunk, theirs: theirChunk });
+    }
+  };
+
+  let o = 0;
+  let a = 0;
+  let b = 0;
+
+  while (true) {
+    // 三方一致的稳定区域
+    let stable = 0;
+    while (
+      o + stable < baseLines.length &&
+      ourMatches[o + stable] === a + stable &&
+      theirMatches[o + stable] === b + stable
+    ) {
+      stable++;
+    }
+    if (stable > 0) {
+      pushText(baseLines.slice(o, o + stable));
+      o += stable;
+      a += stable;
+      b += stable;
+      continue;
+    }
+
+    // 找到下一个在双方都保留的祖先行，之前的部分为不稳定区域
+    let next = o;
+    while (next < baseLines.length && (ourMatches[next] === undefined || theirMatches[next] === undefined)) {
+      next++;
+    }
+
+    if (next >= baseLines.length) {
+      pushChunk(o, baseLines.length, a, ourLines.length, b, theirLines.length);
+      break;
+    }
+
+    pushChunk(o, next, a, ourMatches[next]!, b, theirMatches[next]!);
+    o = next;
+    a = ourMatches[next]!;
+    b = theirMatches[next]!;
+  }
+
+  return segments;
+}
+
+export function hasConflicts(segments: MergeSegment[]): boolean {
+  return segments.some(s => s.type === 'conflict');
+}
+
+/**
+ * 按冲突的解决内容拼接合并结果
+ * 未提供解决内容的冲突会抛出异常
+ */
+export function buildMergedContent(segments: MergeSegment[], resolutions: Record<string, string> = {}): string {
+  const lines: string[] = [];
+  for (const segment of segments) {
+    if (segment.type === 'text') {
+      lines.push(...segment.lines);
+      continue;
+    }
+    const resolution = resolutions[segment.id];
+    if (resolution === undefined) {
+      throw new Error(`Merge conflict ${segment.id} is not resolved`);
+    }
+    // 空字符串表示删除该区域
+    if (resolution !== '') {
+      lines.push(...resolution.split('\n'));
+    }
+  }
+  return lines.join('\n');
+}